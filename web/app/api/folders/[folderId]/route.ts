@@ -0,0 +1,7 @@
+// web/app/api/folders/[folderId]/route.ts
+// GET / PUT / DELETE /api/folders/:folderId (see lib/storage/recordRoutes.ts)
+
+import { itemHandlers } from "@/lib/storage/recordRoutes";
+import { folderRecords } from "@/lib/storage/recordStore";
+
+export const { GET, PUT, DELETE } = itemHandlers(folderRecords, { one: "folder", many: "folders" }, "folderId");
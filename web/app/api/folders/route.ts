@@ -0,0 +1,8 @@
+// web/app/api/folders/route.ts
+// Server copy of the user's folders (see lib/storage/recordRoutes.ts for the contract).
+// GET /api/folders, POST /api/folders
+
+import { collectionHandlers } from "@/lib/storage/recordRoutes";
+import { folderRecords } from "@/lib/storage/recordStore";
+
+export const { GET, POST } = collectionHandlers(folderRecords, { one: "folder", many: "folders" });
@@ -3,6 +3,14 @@
 import { NextResponse } from "next/server";
 import { makeFollowUpEmailDraftFromHighlights } from "@/lib/recap";
 import type { EmailTone, EmailType, MeetingResult } from "@/lib/types";
+import type { Tier, AddOns } from "@/lib/types/tier";
+import { getModelForTask } from "@/lib/ai/router";
+import { estimateTokens } from "@/lib/ai/tokens";
+import { recordUsage } from "@/lib/usage/ledger";
+import { applyQuota, loadQuotaPlan, quotaReport } from "@/lib/usage/quotas";
+import { getProvider, runTask, skippedStep, TaskAbortedError, type AIStepReport } from "@/lib/ai/execute";
+import { renderPrompt } from "@/lib/ai/prompts";
+import { validateFollowUpEmailOutput } from "@/lib/ai/schemas";
 
 type Highlight = { text: string; tag?: string };
 
@@ -37,10 +45,28 @@ function asMeetingResult(x: unknown): MeetingResult {
   return MEETING_RESULTS.includes(x as MeetingResult) ? (x as MeetingResult) : "Pending";
 }
 
+function asTier(x: unknown): Tier {
+  return x === "free" || x === "basic" || x === "premium" || x === "pro" ? x : "free";
+}
+
+function asAddOns(x: unknown): AddOns {
+  const obj = x && typeof x === "object" ? (x as Record<string, unknown>) : {};
+  return {
+    enhancedLogic: Boolean(obj.enhancedLogic),
+    aiTranscription: Boolean(obj.aiTranscription),
+    extraTranscriptionMinutes: Boolean(obj.extraTranscriptionMinutes),
+  };
+}
+
 function cleanStr(x: unknown) {
   return String(x ?? "").trim();
 }
 
+// Quota/ledger key; single-user installs don't send one
+function asAccount(x: unknown): string {
+  return cleanStr(x).slice(0, 100) || "local";
+}
+
 function normalizeHighlights(x: unknown): Highlight[] {
   if (!Array.isArray(x)) return [];
   return x
@@ -75,7 +101,12 @@ export async function POST(req: Request) {
     const emailPrompt = cleanStr(body?.emailPrompt);
     const meetingOutcome = cleanStr(body?.meetingOutcome);
 
-    const email = makeFollowUpEmailDraftFromHighlights({
+    const tier: Tier = asTier(body?.tier);
+    const addOns: AddOns = asAddOns(body?.addOns);
+    const account = asAccount(body?.accountId);
+
+    // Template draft: the whole result on Free / without a provider, the fallback otherwise
+    const template = makeFollowUpEmailDraftFromHighlights({
       highlights,
       followUpType,
       focusPrompt,
@@ -86,6 +117,51 @@ export async function POST(req: Request) {
       emailTone,
     });
 
+    const routed = getModelForTask("E", tier, addOns);
+    const provider = getProvider();
+    // Quotas only apply when AI can run: refuse (→ fallback) or downgrade, with a reason
+    const quota = provider ? await loadQuotaPlan(account, tier, estimateTokens(template)) : null;
+    const decision = quota ? applyQuota(quota, "E", routed) : { model: routed };
+    const model = decision.model;
+    let email = template;
+    let step: AIStepReport;
+
+    if (model === "none") {
+      step = skippedStep("E_FOLLOW_UP_EMAIL", model, decision.reason ?? "Not routed for this tier");
+    } else if (!provider) {
+      step = skippedStep("E_FOLLOW_UP_EMAIL", model, "No AI provider configured");
+    } else {
+      const res = await runTask(provider, {
+        task: "E_FOLLOW_UP_EMAIL",
+        model,
+        prompt: renderPrompt("E_FOLLOW_UP_EMAIL", {
+          highlights,
+          emailType,
+          tone: emailTone,
+          followUpType,
+          focusPrompt,
+          emailPrompt,
+          meetingResult,
+          meetingOutcome,
+          draft: template,
+        }),
+        validate: validateFollowUpEmailOutput,
+        signal: req.signal,
+      }).catch(async (err) => {
+        // Cancelled mid-request: the model was still called, so it's still billed
+        if (err instanceof TaskAbortedError) {
+          await recordUsage({ account, route: "follow-up", requestId: crypto.randomUUID(), steps: [err.report] });
+        }
+        throw err;
+      });
+      if (res.ok) email = res.value.email.trim();
+      step = res.report;
+    }
+
+    await recordUsage({ account, route: "follow-up", requestId: crypto.randomUUID(), steps: [step] });
+
+    const path = step.status === "ok" ? "ai" : "template";
+
     if (!String(email ?? "").trim()) {
       return NextResponse.json(
         { ok: false, error: "Email generation returned an empty draft." },
@@ -93,7 +169,14 @@ export async function POST(req: Request) {
       );
     }
 
-    return NextResponse.json({ ok: true, email });
+    return NextResponse.json({
+      ok: true,
+      email,
+      // Which generator wrote the email: "ai" (Task E) or "template" (free tier / AI unavailable)
+      path,
+      quota: quota ? quotaReport(quota) : null,
+      debug: { tier, addOns, modelForEmail: model, provider: provider?.name ?? "off", aiSteps: [step] },
+    });
   } catch (err) {
     console.error("Follow-up API error:", err);
     return NextResponse.json({ ok: false, error: "Failed to generate follow-up email" }, { status: 500 });
@@ -1,17 +1,26 @@
 // web/app/api/generate/route.ts
 
 import { NextResponse } from "next/server";
-import {
-  parseBullets,
-  parseActionItems,
-  detectActionIssues,
-  formatActionItems,
-  makeSummary,
-} from "@/lib/recap";
+import { buildMergedNotes, recapNotes, type RecapNotesOptions } from "@/lib/recap";
 
+import { isValidTimeZone, todayInTimeZone } from "@/lib/dueDates";
+import { normalizeAttendees, type Attendee } from "@/lib/roster";
+import { asLocalePreference, resolveLocale, type LocalePreference } from "@/lib/lexicons";
+import { hasExtractionRules, normalizeExtractionRules, type ExtractionRules } from "@/lib/extractionRules";
 import type { Tier, AddOns } from "@/lib/types/tier";
-import { getModelForTask, shouldRefine } from "@/lib/ai/router";
+import { getProvider, type AIStepReport } from "@/lib/ai/execute";
+import { runGeneratePipeline } from "@/lib/ai/pipeline";
+import { encodeSseEvent, wantsEventStream } from "@/lib/sse";
+import { chunkNotes } from "@/lib/chunking";
+import type { GroundingMode } from "@/lib/grounding";
+import { cacheKey, getGenerationCache, type CacheStatus } from "@/lib/generationCache";
+import { getRoutingConfig } from "@/lib/ai/routingConfig";
+import { ACTIVE_PROMPT_VERSIONS } from "@/lib/ai/prompts";
+import { estimateTokens } from "@/lib/ai/tokens";
+import { recordUsage } from "@/lib/usage/ledger";
+import { applyQuota, loadQuotaPlan, quotaReport } from "@/lib/usage/quotas";
 import type { ContextStats } from "@/lib/ai/tasks";
+import type { AIProvider } from "@/lib/ai/provider";
 
 type Mode = "current" | "past";
 
@@ -38,111 +47,319 @@ function cleanStr(x: unknown) {
   return String(x ?? "").trim();
 }
 
+// Quota/ledger key; single-user installs don't send one
+function asAccount(x: unknown): string {
+  return cleanStr(x).slice(0, 100) || "local";
+}
+
+// Generated action items no note line supports: flag them in Checks (default) or drop them
+function asGroundingMode(x: unknown): GroundingMode {
+  return x === "drop" ? "drop" : "flag";
+}
+
+function asTimeZone(x: unknown): string | undefined {
+  const tz = cleanStr(x);
+  return tz && isValidTimeZone(tz) ? tz : undefined;
+}
+
+/**
+ * Meeting date as YYYY-MM-DD. Accepts an ISO date or an epoch-ms timestamp
+ * (converted in the user's time zone). Defaults to today in that zone.
+ */
+function asMeetingDate(x: unknown, timeZone: string | undefined): string {
+  if (typeof x === "number" && Number.isFinite(x)) return todayInTimeZone(timeZone, x);
+  const s = cleanStr(x);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
+  return todayInTimeZone(timeZone);
+}
+
 /* -------------------- merge helpers -------------------- */
 
-function buildMergedNotes(params: {
+function buildContextStats(rawNotes: string, mergedNotes: string): ContextStats {
+  return {
+    rawNotesChars: rawNotes.length,
+    mergedNotesChars: mergedNotes.length,
+    estimatedTokens: estimateTokens(mergedNotes),
+  };
+}
+
+/* -------------------- generation -------------------- */
+
+// The deterministic pass runs on the whole notes (action ids and spans are whole-notes) and its
+// duplicate merge is quadratic in action items: ~3s at this size, ~40s at 1M chars
+const MAX_MERGED_CHARS = 200_000;
+// Above this, AI tasks run per chunk (map-reduce); roughly 3k tokens of notes per call
+const CHUNK_CHARS = 12_000;
+
+type GenerateInput = {
+  tier: Tier;
+  addOns: AddOns;
+  account: string;
+  mode: Mode;
+  objective: string;
+  timeZone?: string;
+  meetingDate: string;
+  roster: Attendee[];
+  rules: ExtractionRules;
+  localePreference: LocalePreference;
+  grounding: GroundingMode;
+  force: boolean; // skip the cache lookup (the fresh result still replaces the cached one)
   rawNotes: string;
-  postMeetingNotes: string;
-  meetingOutcome: string;
-}) {
-  const raw = params.rawNotes.trim();
-  const post = params.postMeetingNotes.trim();
-  const outcome = params.meetingOutcome.trim();
+  merged: string;
+};
 
-  const parts: string[] = [];
+type InputResult = { ok: true; input: GenerateInput } | { ok: false; status: number; error: string };
 
-  if (raw) parts.push(raw);
+function readInput(body: Record<string, unknown> | null): InputResult {
+  const rawNotes = cleanStr(body?.rawNotes);
+  const postMeetingNotes = cleanStr(body?.postMeetingNotes);
+  const meetingOutcome = cleanStr(body?.meetingOutcome);
 
-  if (post) {
-    parts.push("", "## Post-Meeting Notes", post);
+  if (!rawNotes && !postMeetingNotes && !meetingOutcome) {
+    return { ok: false, status: 400, error: "Missing input: provide rawNotes, postMeetingNotes, or meetingOutcome." };
   }
 
-  // IMPORTANT: This is what makes “Incorporate Into Outputs” actually change the results.
-  if (outcome) {
-    parts.push("", "## Meeting Outcome", outcome);
+  // Long meetings are chunked for AI (see CHUNK_CHARS); this only bounds the deterministic pass.
+  const merged = buildMergedNotes({ rawNotes, postMeetingNotes, meetingOutcome });
+  if (merged.length > MAX_MERGED_CHARS) {
+    return { ok: false, status: 413, error: `Notes too large (${merged.length} chars). Please shorten and try again.` };
   }
 
-  return parts.join("\n");
-}
+  const timeZone = asTimeZone(body?.timeZone);
 
-function buildContextStats(rawNotes: string, mergedNotes: string): ContextStats {
   return {
-    rawNotesChars: rawNotes.length,
-    mergedNotesChars: mergedNotes.length,
+    ok: true,
+    input: {
+      tier: asTier(body?.tier),
+      addOns: asAddOns(body?.addOns),
+      account: asAccount(body?.accountId),
+      mode: asMode(body?.mode),
+      objective: cleanStr(body?.objective),
+      timeZone,
+      meetingDate: asMeetingDate(body?.meetingDate, timeZone),
+      roster: normalizeAttendees(body?.attendees),
+      // Folder-level rules (extra verbs, ignored phrases, owner patterns) on top of the built-ins
+      rules: normalizeExtractionRules(body?.extractionRules),
+      localePreference: asLocalePreference(body?.locale),
+      grounding: asGroundingMode(body?.grounding),
+      force: body?.force === true,
+      rawNotes,
+      merged,
+    },
   };
 }
 
-/* -------------------- route -------------------- */
-
-export async function POST(req: Request) {
-  try {
-    const body = await req.json();
+type Emit = (event: string, data: unknown) => void;
 
-    const tier: Tier = asTier(body?.tier);
-    const addOns: AddOns = asAddOns(body?.addOns);
+/**
+ * Cached generation. `emit` receives stage events (used by the streaming response); the return
+ * value is the full JSON payload either way, with `debug.cache` telling hit/miss.
+ */
+async function generate(input: GenerateInput, signal: AbortSignal, emit?: Emit) {
+  const { tier, addOns, mode, objective, timeZone, meetingDate, roster, rules, localePreference, grounding } = input;
 
-    const rawNotes = cleanStr(body?.rawNotes);
-    const postMeetingNotes = cleanStr(body?.postMeetingNotes);
-    const meetingOutcome = cleanStr(body?.meetingOutcome);
+  const stats = buildContextStats(input.rawNotes, input.merged);
+  emit?.("started", { stats });
 
-    const mode: Mode = asMode(body?.mode);
+  const provider = getProvider();
+  const cache = getGenerationCache();
+  // Everything that shapes the response; a routing or prompt-version change is a new key
+  const key = cacheKey({
+    notes: input.merged,
+    tier,
+    addOns,
+    mode,
+    objective,
+    meetingDate,
+    timeZone,
+    roster,
+    rules,
+    localePreference,
+    grounding,
+    provider: provider?.name ?? "off",
+    routing: getRoutingConfig().config,
+    prompts: ACTIVE_PROMPT_VERSIONS,
+  });
 
-    if (!rawNotes && !postMeetingNotes && !meetingOutcome) {
-      return NextResponse.json(
-        { ok: false, error: "Missing input: provide rawNotes, postMeetingNotes, or meetingOutcome." },
-        { status: 400 }
-      );
+  if (cache.enabled && !input.force) {
+    const hit = cache.get(key);
+    if (hit) {
+      const payload = hit.value as GeneratePayload;
+      // No pipeline ran: nothing was charged, so this month's quota numbers don't apply
+      return { ...payload, quota: null, debug: { ...payload.debug, cache: cacheInfo("hit", key, hit.ageMs) } };
     }
+  }
 
-    // Simple safety guard so someone can’t paste a novel and freeze the app.
-    const merged = buildMergedNotes({ rawNotes, postMeetingNotes, meetingOutcome });
-    const MAX_MERGED_CHARS = 50_000;
-    if (merged.length > MAX_MERGED_CHARS) {
-      return NextResponse.json(
-        { ok: false, error: `Notes too large (${merged.length} chars). Please shorten and try again.` },
-        { status: 413 }
-      );
-    }
+  const payload = await runGenerate(input, stats, provider, signal, emit);
 
-    const stats = buildContextStats(rawNotes, merged);
+  // Degraded results (an AI step failed, or a quota cut in) are not worth repeating for the TTL
+  const degraded = payload.debug.aiSteps.some((s) => s.status === "failed") || Boolean(payload.quota?.reasons.length);
+  if (!degraded) cache.set(key, payload);
 
-    // Phase 1: deterministic parsing (AI not integrated yet)
-    const bullets = parseBullets(merged);
-    const items = parseActionItems(bullets);
-    const issues = detectActionIssues(items);
+  const status: CacheStatus = !cache.enabled ? "off" : input.force ? "forced" : "miss";
+  return { ...payload, debug: { ...payload.debug, cache: cacheInfo(status, key) } };
+}
 
-    const summary = makeSummary(bullets);
-    const actionItems = formatActionItems(items, issues);
+function cacheInfo(status: CacheStatus, key: string, ageMs?: number) {
+  return { status, key: key.slice(0, 12), ageMs };
+}
+
+type GeneratePayload = Awaited<ReturnType<typeof runGenerate>>;
+
+/** Deterministic pass + AI pipeline, uncached. */
+async function runGenerate(
+  input: GenerateInput,
+  stats: ContextStats,
+  provider: AIProvider | null,
+  signal: AbortSignal,
+  emit?: Emit
+) {
+  const { tier, addOns, account, mode, objective, timeZone, meetingDate, roster, rules, localePreference, grounding } = input;
+  const { merged } = input;
+
+  // Lexicon for verbs/owners/dates: explicit per session, or guessed from the notes
+  const locale = resolveLocale(localePreference, merged);
+
+  // Phase 1: deterministic pass over the whole notes. Always runs: drafts for the AI tasks + fallback.
+  const ctx: RecapNotesOptions = { objective, roster, dueDates: { meetingDate, timeZone }, locale, rules };
+  const { normalized, summary, actionItems, structuredActionItems } = recapNotes(merged, ctx);
+
+  // Email is intentionally blank here - follow-up route owns email generation.
+  const email = "";
+
+  // Long meetings: per-chunk deterministic drafts for the map step (action ids/structure stay whole-notes)
+  const chunks =
+    merged.length > CHUNK_CHARS
+      ? chunkNotes(merged, CHUNK_CHARS).map((notes) => {
+          const d = recapNotes(notes, ctx);
+          return { notes, deterministic: { normalized: d.normalized, outputs: { summary: d.summary, actionItems: d.actionItems, email } } };
+        })
+      : undefined;
 
-    // Email is intentionally blank here - follow-up route owns email generation.
-    const email = "";
+  // Phase 2: AI tasks A → B → (C) as routed for this tier; each step falls back to Phase 1
+  // Quotas only apply when AI can run; the deterministic path is always free
+  const quota = provider ? await loadQuotaPlan(account, tier, stats.estimatedTokens) : null;
+  // Billed in `finally`: a client that cancels after "core" still pays for the steps that ran
+  const steps: AIStepReport[] = [];
+  const run = runGeneratePipeline({
+    provider,
+    tier,
+    addOns,
+    stats,
+    notes: merged,
+    objective,
+    deterministic: { normalized, outputs: { summary, actionItems, email }, structuredActionItems },
+    chunks,
+    grounding,
+    signal,
+    adjustModel: quota ? (task, model) => applyQuota(quota, task, model) : undefined,
+    // Partial results go out as soon as each stage settles
+    onProgress: (p) => {
+      if (p.stage === "normalized") emit?.("normalized", { normalized: p.normalized });
+      if (p.stage === "core") {
+        emit?.("core", { outputs: { ...p.outputs, email, structuredActionItems: p.structuredActionItems } });
+      }
+      if (p.stage === "refining") emit?.("refining", { model: p.model });
+    },
+    onStep: (step) => steps.push(step),
+  });
 
-    // Router hooks (choose models + refine decision; do not execute AI yet)
-    const modelForNormalizer = getModelForTask("A", tier, addOns, stats);
-    const modelForCoreOutputs = getModelForTask("B", tier, addOns, stats);
+  let ai: Awaited<typeof run>;
+  try {
+    ai = await run;
+  } finally {
+    await recordUsage({ account, route: "generate", requestId: crypto.randomUUID(), steps });
+  }
 
-    const refine = shouldRefine({
+  return {
+    ok: true,
+    outputs: { ...ai.outputs, email, structuredActionItems: ai.structuredActionItems ?? structuredActionItems },
+    normalized: ai.normalized,
+    // Task C output for review; the client decides whether it replaces `outputs`
+    refinement: ai.refinement ?? null,
+    // Why AI was refused/downgraded this month (empty reasons when nothing was limited)
+    quota: quota ? quotaReport(quota) : null,
+    debug: {
+      mode,
+      meetingDate,
+      timeZone,
+      localePreference,
+      locale,
+      extractionRules: hasExtractionRules(rules),
       tier,
       addOns,
       stats,
-      normalizerJson: undefined,
-    });
-
-    return NextResponse.json({
-      ok: true,
-      outputs: { summary, actionItems, email },
-      debug: {
-        mode,
-        tier,
-        addOns,
-        stats,
-        modelForNormalizer,
-        modelForCoreOutputs,
-        refine,
-      },
-    });
+      modelForNormalizer: ai.models.A,
+      modelForCoreOutputs: ai.models.B,
+      modelForRefine: ai.models.C,
+      refine: ai.refine,
+      engine: ai.engine,
+      chunks: ai.chunks,
+      grounding,
+      ungrounded: ai.ungrounded,
+      provider: provider?.name ?? "off",
+      aiSteps: ai.steps,
+    },
+  };
+}
+
+/**
+ * Streaming variant: text/event-stream with started → normalized → core → (refining) → done,
+ * or error. A client disconnect aborts `req.signal`, which cancels in-flight AI calls.
+ */
+function streamGenerate(req: Request, input: GenerateInput): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: string, data: unknown) => {
+        if (!req.signal.aborted) controller.enqueue(encoder.encode(encodeSseEvent(event, data)));
+      };
+
+      try {
+        const payload = await generate(input, req.signal, emit);
+        emit("done", payload);
+      } catch (err) {
+        if (!req.signal.aborted) {
+          console.error("Generate API stream error:", err);
+          emit("error", { ok: false, error: "Failed to generate outputs" });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client disconnect
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/* -------------------- route -------------------- */
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+
+    const parsed = readInput(body && typeof body === "object" ? (body as Record<string, unknown>) : null);
+    if (!parsed.ok) {
+      return NextResponse.json({ ok: false, error: parsed.error }, { status: parsed.status });
+    }
+
+    // Opt-in progress events ({ stream: true } or Accept: text/event-stream)
+    if (wantsEventStream(req, body)) return streamGenerate(req, parsed.input);
+
+    return NextResponse.json(await generate(parsed.input, req.signal));
   } catch (err) {
     console.error("Generate API error:", err);
     return NextResponse.json({ ok: false, error: "Failed to generate outputs" }, { status: 500 });
   }
-}
\ No newline at end of file
+}
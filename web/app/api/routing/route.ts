@@ -0,0 +1,40 @@
+// web/app/api/routing/route.ts
+// Resolved AI routing for a tier + add-ons: which model each task runs on and when refine kicks in.
+// GET /api/routing?tier=premium&enhancedLogic=1
+
+import { NextResponse } from "next/server";
+import type { Tier, AddOns } from "@/lib/types/tier";
+import { resolveRouting } from "@/lib/ai/router";
+import { RoutingConfigError } from "@/lib/ai/routingConfig";
+
+/* -------------------- tiny validators -------------------- */
+
+function asTier(x: unknown): Tier {
+  return x === "free" || x === "basic" || x === "premium" || x === "pro" ? x : "free";
+}
+
+function asFlag(x: string | null): boolean {
+  return x === "1" || x === "true";
+}
+
+function asAddOns(params: URLSearchParams): AddOns {
+  return {
+    enhancedLogic: asFlag(params.get("enhancedLogic")),
+    aiTranscription: asFlag(params.get("aiTranscription")),
+    extraTranscriptionMinutes: asFlag(params.get("extraTranscriptionMinutes")),
+  };
+}
+
+/* -------------------- route -------------------- */
+
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const routing = resolveRouting(asTier(params.get("tier")), asAddOns(params));
+    return NextResponse.json({ ok: true, routing });
+  } catch (err) {
+    console.error("Routing API error:", err);
+    const errors = err instanceof RoutingConfigError ? err.errors : undefined;
+    return NextResponse.json({ ok: false, error: "Failed to resolve routing", errors }, { status: 500 });
+  }
+}
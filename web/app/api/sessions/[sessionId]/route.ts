@@ -0,0 +1,7 @@
+// web/app/api/sessions/[sessionId]/route.ts
+// GET / PUT / DELETE /api/sessions/:sessionId (see lib/storage/recordRoutes.ts)
+
+import { itemHandlers } from "@/lib/storage/recordRoutes";
+import { sessionRecords } from "@/lib/storage/recordStore";
+
+export const { GET, PUT, DELETE } = itemHandlers(sessionRecords, { one: "session", many: "sessions" }, "sessionId");
@@ -0,0 +1,8 @@
+// web/app/api/sessions/route.ts
+// Server copy of the user's sessions (see lib/storage/recordRoutes.ts for the contract).
+// GET /api/sessions, POST /api/sessions
+
+import { collectionHandlers } from "@/lib/storage/recordRoutes";
+import { sessionRecords } from "@/lib/storage/recordStore";
+
+export const { GET, POST } = collectionHandlers(sessionRecords, { one: "session", many: "sessions" });
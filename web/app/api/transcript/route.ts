@@ -0,0 +1,122 @@
+// web/app/api/transcript/route.ts
+// Transcript ingestion (Task D): WebVTT / SRT / "Speaker: text" → clean notes for Session.rawNotes.
+
+import { NextResponse } from "next/server";
+import { polishTranscript, type TranscriptFormat } from "@/lib/transcript";
+import type { Tier, AddOns } from "@/lib/types/tier";
+import { getModelForTask } from "@/lib/ai/router";
+import { estimateTokens } from "@/lib/ai/tokens";
+import { recordUsage } from "@/lib/usage/ledger";
+import { applyQuota, loadQuotaPlan, quotaReport } from "@/lib/usage/quotas";
+import { getProvider, runTask, skippedStep, TaskAbortedError, type AIStepReport } from "@/lib/ai/execute";
+import { renderPrompt } from "@/lib/ai/prompts";
+import { validateTranscriptPolishOutput } from "@/lib/ai/schemas";
+
+/* -------------------- tiny validators -------------------- */
+
+function asTier(x: unknown): Tier {
+  return x === "free" || x === "basic" || x === "premium" || x === "pro" ? x : "free";
+}
+
+function asAddOns(x: unknown): AddOns {
+  const obj = x && typeof x === "object" ? (x as Record<string, unknown>) : {};
+  return {
+    enhancedLogic: Boolean(obj.enhancedLogic),
+    aiTranscription: Boolean(obj.aiTranscription),
+    extraTranscriptionMinutes: Boolean(obj.extraTranscriptionMinutes),
+  };
+}
+
+// Quota/ledger key; single-user installs don't send one
+function asAccount(x: unknown): string {
+  return String(x ?? "").trim().slice(0, 100) || "local";
+}
+
+function asFormat(x: unknown): TranscriptFormat | undefined {
+  return x === "vtt" || x === "srt" || x === "speaker" || x === "plain" ? x : undefined;
+}
+
+/* -------------------- route -------------------- */
+
+// Transcripts run long (an hour of VTT is ~100k chars); this only stops abuse
+const MAX_TRANSCRIPT_CHARS = 400_000;
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+
+    const tier: Tier = asTier(body?.tier);
+    const addOns: AddOns = asAddOns(body?.addOns);
+    const account = asAccount(body?.accountId);
+    const transcript = String(body?.transcript ?? "");
+
+    if (!transcript.trim()) {
+      return NextResponse.json({ ok: false, error: "Missing input: provide transcript." }, { status: 400 });
+    }
+    if (transcript.length > MAX_TRANSCRIPT_CHARS) {
+      return NextResponse.json(
+        { ok: false, error: `Transcript too large (${transcript.length} chars). Please split it and try again.` },
+        { status: 413 }
+      );
+    }
+
+    // Deterministic polish: the whole result when Task D is routed to "none", draft + fallback otherwise
+    const polished = polishTranscript(transcript, asFormat(body?.format));
+    if (!polished.turns.length) {
+      return NextResponse.json({ ok: false, error: "No speech found in transcript." }, { status: 422 });
+    }
+
+    const routed = getModelForTask("D", tier, addOns);
+    const provider = getProvider();
+    // Quotas only apply when AI can run: refuse (→ fallback) or downgrade, with a reason
+    const quota = provider ? await loadQuotaPlan(account, tier, estimateTokens(transcript)) : null;
+    const decision = quota ? applyQuota(quota, "D", routed) : { model: routed };
+    const model = decision.model;
+    let notes = polished.notes;
+    let step: AIStepReport;
+
+    if (model === "none") {
+      step = skippedStep("D_TRANSCRIPT_POLISH", model, decision.reason ?? "Not routed for this tier");
+    } else if (!provider) {
+      step = skippedStep("D_TRANSCRIPT_POLISH", model, "No AI provider configured");
+    } else {
+      const res = await runTask(provider, {
+        task: "D_TRANSCRIPT_POLISH",
+        model,
+        prompt: renderPrompt("D_TRANSCRIPT_POLISH", { transcript, draft: polished.notes }),
+        validate: validateTranscriptPolishOutput,
+        signal: req.signal,
+      }).catch(async (err) => {
+        // Cancelled mid-request: the model was still called, so it's still billed
+        if (err instanceof TaskAbortedError) {
+          await recordUsage({ account, route: "transcript", requestId: crypto.randomUUID(), steps: [err.report] });
+        }
+        throw err;
+      });
+      if (res.ok) notes = res.value.notes.trim();
+      step = res.report;
+    }
+
+    await recordUsage({ account, route: "transcript", requestId: crypto.randomUUID(), steps: [step] });
+
+    return NextResponse.json({
+      ok: true,
+      notes,
+      speakers: polished.speakers,
+      quota: quota ? quotaReport(quota) : null,
+      debug: {
+        format: polished.format,
+        turns: polished.turns.length,
+        tier,
+        addOns,
+        modelForPolish: model,
+        engine: step.status === "ok" ? "ai" : "deterministic",
+        provider: provider?.name ?? "off",
+        aiSteps: [step],
+      },
+    });
+  } catch (err) {
+    console.error("Transcript API error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to process transcript" }, { status: 500 });
+  }
+}
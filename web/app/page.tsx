@@ -1,26 +1,87 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import {
   createFolder,
   createSession,
+  deleteSession,
   loadFolders,
+  loadLocalDeletes,
   loadSessions,
+  recordLocalDelete,
   saveFolders,
   saveSessions,
   sortSessions,
+  updateFolder,
   updateSession,
   type Folder,
   type Session,
   type SortMode,
   type SessionCheckpoint,
   type CheckpointReason,
+  normalizePendingRefinement,
+  normalizeStructuredActionItems,
 } from "../lib/sessionStore";
+import { buildMergedNotes, type StructuredActionItem } from "@/lib/recap";
 import type { MeetingResult } from "@/lib/types";
+import { formatAttendees, parseAttendees, type Attendee } from "@/lib/roster";
+import { LOCALE_LABELS, asLocalePreference, type LocalePreference } from "@/lib/lexicons";
+import {
+  emptyExtractionRules,
+  formatRuleLines,
+  normalizeExtractionRules,
+  parseRuleLines,
+  type ExtractionRules,
+} from "@/lib/extractionRules";
+import type { RefineChange, Refinement } from "@/lib/ai/refine";
+import { readSseStream } from "@/lib/sse";
+import { pushChanges, reconcileRecords, syncAll, type SyncResult, type SyncStatus } from "@/lib/sync";
 
 type Screen = { name: "home" } | { name: "session"; sessionId: string };
 type GenerateMode = "current" | "past";
+type RulesDraft = Record<keyof ExtractionRules, string>;
+
+const SYNC_LABELS: Record<SyncStatus, string> = {
+  idle: "",
+  syncing: "Syncing…",
+  synced: "Saved to server",
+  offline: "Offline: changes kept on this device",
+  error: "Sync failed: changes kept on this device",
+};
+
+// Edits are pushed once typing pauses this long
+const SYNC_PUSH_DELAY_MS = 1500;
+
+const RULE_FIELDS: { key: keyof ExtractionRules; label: string; placeholder: string }[] = [
+  { key: "extraVerbs", label: "Extra Action Verbs", placeholder: "loop in\ncircle back\nping\njira it" },
+  { key: "ignoredPhrases", label: "Ignored Phrases", placeholder: "went well\nreview meeting" },
+  { key: "ownerPatterns", label: "Owner Patterns", placeholder: "DRI: {owner}\n{owner} to handle" },
+  { key: "vaguePhrases", label: "Vague Phrases", placeholder: "circle back\nsync on" },
+];
+
+// /api/generate JSON payload (also the "done" stream event); only the fields the page reads
+type GenerateResponse = {
+  ok?: boolean;
+  outputs?: { summary?: unknown; actionItems?: unknown; structuredActionItems?: unknown };
+  refinement?: Record<string, unknown> | null;
+};
+
+type GenerateResult = { outputs: Session["outputs"]; pendingRefinement?: Refinement };
+
+// /api/generate stream events → progress label
+const GENERATE_STAGE_LABELS: Record<string, string> = {
+  started: "Reading notes…",
+  normalized: "Notes structured, writing summary…",
+  core: "Summary and action items ready",
+  refining: "Refining…",
+};
+
+const CHANGE_LABELS: Record<RefineChange["kind"], string> = {
+  added: "Added",
+  removed: "Removed",
+  reworded: "Reworded",
+};
 
 /* -------------------- small helpers -------------------- */
 
@@ -99,23 +160,86 @@ export default function Page() {
   const [pastEditDraft, setPastEditDraft] = useState("");
   const [pastEditOriginal, setPastEditOriginal] = useState("");
 
-  useEffect(() => {
-    setFolders(loadFolders());
+  // Attendees editor: free text while typing, parsed into the roster on blur
+  const [attendeesDraft, setAttendeesDraft] = useState<string | null>(null);
+
+  // Folder extraction-rules editor (one folder at a time)
+  const [rulesFolderId, setRulesFolderId] = useState<string | null>(null);
+  const [rulesDraft, setRulesDraft] = useState<RulesDraft | null>(null);
+
+  // Generation in flight: stage label, partial outputs from the stream, and its cancel handle
+  const [genProgress, setGenProgress] = useState<string | null>(null);
+  const [genPreview, setGenPreview] = useState<{ summary: string; actionItems: string } | null>(null);
+  const genAbortRef = useRef<AbortController | null>(null);
+
+  // Action item whose source note lines are shown (click to toggle)
+  const [sourceItemId, setSourceItemId] = useState<string | null>(null);
+
+  // Server sync: localStorage is loaded first (hydrated), then reconciled with /api/sessions + /api/folders
+  const [hydrated, setHydrated] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("idle");
+  const [syncSkipped, setSyncSkipped] = useState(0);
+  const latestRef = useRef({ sessions, folders });
+  latestRef.current = { sessions, folders };
+
+  // Server copies merge into the live state (not the snapshot the sync started from)
+  // (minus records deleted here whose delete hasn't reached the server yet)
+  function applySyncResult(result: SyncResult) {
+    const { sessions: remoteSessions, folders: remoteFolders } = result;
+    const deletes = loadLocalDeletes();
+    if (remoteFolders) setFolders((prev) => reconcileRecords(prev, remoteFolders, deletes.folders).merged);
+    if (remoteSessions) setSessions((prev) => reconcileRecords(prev, remoteSessions, deletes.sessions).merged);
+    if (result.skipped !== undefined) setSyncSkipped(result.skipped);
+    setSyncStatus(result.status);
+  }
 
-    // Back-compat: any legacy followUp sessions get normalized to past
-    const loaded = loadSessions().map((s: any) =>
-      s?.mode === "followUp" ? ({ ...s, mode: "past" } as any) : s
-    );
+  function runFullSync() {
+    setSyncStatus("syncing");
+    void syncAll(latestRef.current).then(applySyncResult);
+  }
+
+  useEffect(() => {
+    // Legacy shapes (ex: "followUp" mode sessions) are migrated on load, see lib/migrations.ts
+    const loadedFolders = loadFolders();
+    const loaded = loadSessions();
+    setFolders(loadedFolders);
     setSessions(loaded);
+    setHydrated(true);
+
+    setSyncStatus("syncing");
+    void syncAll({ sessions: loaded, folders: loadedFolders }).then(applySyncResult);
+
+    // Back online / back on the tab: pick up edits made elsewhere and push ours
+    const onVisible = () => {
+      if (document.visibilityState === "visible") runFullSync();
+    };
+    window.addEventListener("online", runFullSync);
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      window.removeEventListener("online", runFullSync);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Nothing is written back before the first load: the initial empty state would wipe storage
   useEffect(() => {
-    saveFolders(folders);
-  }, [folders]);
+    if (hydrated) saveFolders(folders);
+  }, [folders, hydrated]);
 
   useEffect(() => {
-    saveSessions(sessions);
-  }, [sessions]);
+    if (hydrated) saveSessions(sessions);
+  }, [sessions, hydrated]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    const timer = setTimeout(() => {
+      void pushChanges({ sessions, folders }).then((result) => {
+        if (result) applySyncResult(result);
+      });
+    }, SYNC_PUSH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessions, folders, hydrated]);
 
   const standaloneSessions = useMemo(() => {
     const standalones = sessions.filter((s) => s.folderId === null);
@@ -154,11 +278,13 @@ export default function Page() {
 
   function openSession(sessionId: string) {
     resetPastEditUi();
+    setAttendeesDraft(null);
     setScreen({ name: "session", sessionId });
   }
 
   function goHome() {
     resetPastEditUi();
+    setAttendeesDraft(null);
     setScreen({ name: "home" });
   }
 
@@ -173,6 +299,14 @@ export default function Page() {
     openSession(s.id);
   }
 
+  function handleDeleteSession(session: Session) {
+    if (!window.confirm(`Delete "${session.title}"? This can't be undone.`)) return;
+    // Kept until the server has it, so a sync from another device can't bring the session back
+    recordLocalDelete("sessions", session.id);
+    setSessions((prev) => deleteSession(prev, session.id));
+    goHome();
+  }
+
   function handleCreateFolder() {
     const name = newFolderName.trim();
     if (!name) return;
@@ -181,6 +315,39 @@ export default function Page() {
     setNewFolderName("");
   }
 
+  function openRulesEditor(folder: Folder) {
+    const rules = folder.extractionRules ?? emptyExtractionRules();
+    setRulesFolderId(folder.id);
+    setRulesDraft({
+      extraVerbs: formatRuleLines(rules.extraVerbs),
+      ignoredPhrases: formatRuleLines(rules.ignoredPhrases),
+      ownerPatterns: formatRuleLines(rules.ownerPatterns),
+      vaguePhrases: formatRuleLines(rules.vaguePhrases),
+    });
+  }
+
+  function closeRulesEditor() {
+    setRulesFolderId(null);
+    setRulesDraft(null);
+  }
+
+  function saveRulesEditor(folder: Folder) {
+    if (!rulesDraft) return;
+    const extractionRules = normalizeExtractionRules({
+      extraVerbs: parseRuleLines(rulesDraft.extraVerbs),
+      ignoredPhrases: parseRuleLines(rulesDraft.ignoredPhrases),
+      ownerPatterns: parseRuleLines(rulesDraft.ownerPatterns),
+      vaguePhrases: parseRuleLines(rulesDraft.vaguePhrases),
+    });
+    setFolders((prev) => updateFolder(prev, { ...folder, extractionRules }));
+    closeRulesEditor();
+  }
+
+  function getFolderRules(s: Session): ExtractionRules | undefined {
+    if (!s.folderId) return undefined;
+    return folders.find((f) => f.id === s.folderId)?.extractionRules;
+  }
+
   function handleCreateSessionInFolder(folderId: string) {
     const s = createSession();
     const updated: Session = { ...s, folderId };
@@ -286,15 +453,42 @@ export default function Page() {
     postMeetingNotes: string;
     meetingOutcome: string;
     mode: GenerateMode;
-  }): Promise<Session["outputs"] | null> {
+    meetingDate: number;
+    attendees: Attendee[];
+    objective: string;
+    locale: LocalePreference;
+    extractionRules?: ExtractionRules;
+  }): Promise<GenerateResult | null> {
+    // One generation at a time: a new request replaces the one in flight
+    genAbortRef.current?.abort();
+    const controller = new AbortController();
+    genAbortRef.current = controller;
+    setGenProgress(GENERATE_STAGE_LABELS.started);
+    setGenPreview(null);
+
     try {
       const res = await fetch("/api/generate", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(params),
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+        // Relative due dates ("tomorrow", "next Tuesday") resolve against the meeting day in the user's zone
+        body: JSON.stringify({ ...params, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone, stream: true }),
+        signal: controller.signal,
       });
 
-      const data = await res.json();
+      // Input errors (400/413) come back as plain JSON before any streaming starts
+      let data: GenerateResponse | null = null;
+      if ((res.headers.get("content-type") ?? "").includes("text/event-stream")) {
+        await readSseStream(res, ({ event, data: payload }) => {
+          const p = payload as GenerateResponse | null;
+          if (event === "done" || event === "error") data = p;
+          if (GENERATE_STAGE_LABELS[event]) setGenProgress(GENERATE_STAGE_LABELS[event]);
+          if (event === "core" && p?.outputs) {
+            setGenPreview({ summary: String(p.outputs.summary ?? ""), actionItems: String(p.outputs.actionItems ?? "") });
+          }
+        });
+      } else {
+        data = (await res.json()) as GenerateResponse;
+      }
 
       if (!data?.ok || !data?.outputs) {
         console.error("Generate failed:", data);
@@ -302,17 +496,35 @@ export default function Page() {
       }
 
       return {
-        summary: String(data.outputs.summary ?? ""),
-        actionItems: String(data.outputs.actionItems ?? ""),
-        // Email is generated only in Follow-Up routes, not here
-        email: "",
+        outputs: {
+          summary: String(data.outputs.summary ?? ""),
+          actionItems: String(data.outputs.actionItems ?? ""),
+          // Email is generated only in Follow-Up routes, not here
+          email: "",
+          structuredActionItems: normalizeStructuredActionItems(data.outputs.structuredActionItems),
+        },
+        // Refined version (Task C) is held for review, not applied
+        pendingRefinement: normalizePendingRefinement(
+          data.refinement ? { ...data.refinement, createdAt: Date.now() } : null
+        ),
       };
     } catch (err) {
+      if (controller.signal.aborted) return null; // cancelled (or replaced): not an error
       console.error("Generate error:", err);
       return null;
+    } finally {
+      if (genAbortRef.current === controller) {
+        genAbortRef.current = null;
+        setGenProgress(null);
+        setGenPreview(null);
+      }
     }
   }
 
+  function cancelGenerate() {
+    genAbortRef.current?.abort();
+  }
+
   function getRawNotesForGeneration(s: Session) {
     if (s.mode === "past" && isEditingPastRawNotes) return pastEditDraft;
     return s.rawNotes;
@@ -324,15 +536,20 @@ export default function Page() {
     const rawNotesForGen = getRawNotesForGeneration(currentSession);
     const pm = getPastMeta(currentSession);
 
-    const outputs = await generateViaApi({
+    const result = await generateViaApi({
       rawNotes: rawNotesForGen,
       postMeetingNotes: String((currentSession as any).postMeetingNotes ?? ""),
       meetingOutcome: String(pm.meetingOutcome ?? ""),
       mode: modeOverride ?? ((currentSession.mode === "current" ? "current" : "past") as GenerateMode),
+      meetingDate: currentSession.createdAt,
+      attendees: currentSession.attendees ?? [],
+      objective: currentSession.objective,
+      locale: currentSession.locale ?? "auto",
+      extractionRules: getFolderRules(currentSession),
     });
 
-    if (!outputs) return;
-    doDestructive(reason, () => ({ outputs }));
+    if (!result) return;
+    doDestructive(reason, () => ({ outputs: result.outputs, pendingRefinement: result.pendingRefinement }));
   }
 
   async function handleGenerateNow() {
@@ -350,18 +567,24 @@ export default function Page() {
 
     const pm = getPastMeta(currentSession);
 
-    const outputs = await generateViaApi({
+    const result = await generateViaApi({
       rawNotes: currentSession.rawNotes,
       postMeetingNotes: String((currentSession as any).postMeetingNotes ?? ""),
       meetingOutcome: String(pm.meetingOutcome ?? ""),
       mode: "past",
+      meetingDate: currentSession.createdAt,
+      attendees: currentSession.attendees ?? [],
+      objective: currentSession.objective,
+      locale: currentSession.locale ?? "auto",
+      extractionRules: getFolderRules(currentSession),
     });
 
-    if (!outputs) return;
+    if (!result) return;
 
     doDestructive("end", () => ({
       mode: "past",
-      outputs,
+      outputs: result.outputs,
+      pendingRefinement: result.pendingRefinement,
       pastMeta: (currentSession as any).pastMeta ?? {
         meetingResult: "Pending",
         meetingOutcome: "",
@@ -419,6 +642,8 @@ export default function Page() {
       rawNotes: previous.rawNotes,
       objective: previous.objective,
       outputs: previous.outputs,
+      // A pending refinement was computed against the outputs being replaced
+      pendingRefinement: undefined,
       checkpoints: checkpoints.slice(0, -1),
       redoStack: [...redoStack, nowSnap],
       updatedAt: Date.now(),
@@ -443,6 +668,7 @@ export default function Page() {
       rawNotes: next.rawNotes,
       objective: next.objective,
       outputs: next.outputs,
+      pendingRefinement: undefined,
       redoStack: redoStack.slice(0, -1),
       checkpoints: [...checkpoints, nowSnap],
       updatedAt: Date.now(),
@@ -459,6 +685,7 @@ export default function Page() {
       rawNotes: "",
       objective: "",
       outputs: { actionItems: "", summary: "", email: "" },
+      pendingRefinement: undefined,
       postMeetingNotes: "",
       pastMeta:
         currentSession.mode === "past"
@@ -472,6 +699,73 @@ export default function Page() {
     resetPastEditUi();
   }
 
+  /* -------------------- refine review (Task C) -------------------- */
+
+  function acceptRefinement() {
+    if (!currentSession?.pendingRefinement) return;
+    const refined = currentSession.pendingRefinement;
+
+    // Checkpointed so Undo brings back the first-pass outputs. The first-pass structured items
+    // describe the old text: take the refined ones (none on older pending refinements)
+    doDestructive("refine", (base) => ({
+      outputs: {
+        ...base.outputs,
+        summary: refined.summary,
+        actionItems: refined.actionItems,
+        structuredActionItems: refined.structuredActionItems,
+      },
+      pendingRefinement: undefined,
+    }));
+  }
+
+  function rejectRefinement() {
+    patchSession({ pendingRefinement: undefined });
+  }
+
+  function groupRefineChanges(changes: RefineChange[]) {
+    const groups: { title: string; changes: RefineChange[] }[] = [];
+    for (const c of changes) {
+      const base = c.output === "summary" ? "Summary" : "Action Items";
+      const title = c.section && c.section !== base ? `${base} › ${c.section}` : base;
+      const group = groups.find((g) => g.title === title);
+      if (group) group.changes.push(c);
+      else groups.push({ title, changes: [c] });
+    }
+    return groups;
+  }
+
+  /* -------------------- action-item sources -------------------- */
+
+  /**
+   * Note lines around an item's source spans, rebuilt from the session's current notes.
+   * `stale` when the notes changed since generation (the cited offsets no longer line up).
+   */
+  function sourceExcerpt(s: Session, item: StructuredActionItem, context = 2) {
+    const spans = item.sourceSpans ?? [];
+    if (!spans.length) return null;
+
+    const merged = buildMergedNotes({
+      rawNotes: s.rawNotes,
+      postMeetingNotes: s.postMeetingNotes ?? "",
+      meetingOutcome: getPastMeta(s).meetingOutcome,
+    });
+    const lines = merged.split("\n");
+    const cited = new Set(spans.map((sp) => sp.line));
+    const stale = spans.some((sp) => merged.slice(sp.start, sp.end) !== (lines[sp.line - 1] ?? "").trim());
+
+    const shown = new Set<number>();
+    for (const sp of spans) {
+      for (let n = Math.max(1, sp.line - context); n <= Math.min(lines.length, sp.line + context); n++) shown.add(n);
+    }
+
+    return {
+      stale,
+      lines: Array.from(shown)
+        .sort((a, b) => a - b)
+        .map((n) => ({ line: n, text: lines[n - 1], cited: cited.has(n) })),
+    };
+  }
+
   /* -------------------- past raw notes edit flow -------------------- */
 
   function requestEnablePastEdit() {
@@ -498,18 +792,24 @@ export default function Page() {
 
     const pm = getPastMeta(currentSession);
 
-    const outputs = await generateViaApi({
+    const result = await generateViaApi({
       rawNotes: pastEditDraft,
       postMeetingNotes: String((currentSession as any).postMeetingNotes ?? ""),
       meetingOutcome: String(pm.meetingOutcome ?? ""),
       mode: "past",
+      meetingDate: currentSession.createdAt,
+      attendees: currentSession.attendees ?? [],
+      objective: currentSession.objective,
+      locale: currentSession.locale ?? "auto",
+      extractionRules: getFolderRules(currentSession),
     });
 
-    if (!outputs) return;
+    if (!result) return;
 
     doDestructive("manual", () => ({
       rawNotes: pastEditDraft,
-      outputs,
+      outputs: result.outputs,
+      pendingRefinement: result.pendingRefinement,
     }));
 
     resetPastEditUi();
@@ -587,6 +887,19 @@ export default function Page() {
                 <option value="alpha">Alphabetical</option>
               </select>
             </div>
+
+            {SYNC_LABELS[syncStatus] ? (
+              <span
+                style={{
+                  marginLeft: "auto",
+                  fontSize: 12,
+                  color: syncStatus === "offline" || syncStatus === "error" ? "#a15c00" : "#666",
+                }}
+              >
+                {SYNC_LABELS[syncStatus]}
+                {syncSkipped ? ` (${syncSkipped} server record${syncSkipped === 1 ? "" : "s"} could not be read)` : ""}
+              </span>
+            ) : null}
           </div>
 
           <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 14, marginTop: 16 }}>
@@ -634,21 +947,96 @@ export default function Page() {
                         <div key={f.id} style={{ border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
                           <div style={{ display: "flex", justifyContent: "space-between", gap: 10 }}>
                             <div style={{ fontWeight: 800 }}>{f.name}</div>
-                            <button
-                              onClick={() => handleCreateSessionInFolder(f.id)}
-                              style={{
-                                padding: "6px 10px",
-                                borderRadius: 10,
-                                border: "1px solid #ddd",
-                                background: "#fff",
-                                cursor: "pointer",
-                                fontWeight: 700,
-                              }}
-                            >
-                              + Session
-                            </button>
+                            <div style={{ display: "flex", gap: 6 }}>
+                              <button
+                                onClick={() => (rulesFolderId === f.id ? closeRulesEditor() : openRulesEditor(f))}
+                                title="Extraction rules for sessions in this file"
+                                style={{
+                                  padding: "6px 10px",
+                                  borderRadius: 10,
+                                  border: "1px solid #ddd",
+                                  background: rulesFolderId === f.id ? "#f4f4f4" : "#fff",
+                                  cursor: "pointer",
+                                  fontWeight: 700,
+                                }}
+                              >
+                                Rules
+                              </button>
+                              <button
+                                onClick={() => handleCreateSessionInFolder(f.id)}
+                                style={{
+                                  padding: "6px 10px",
+                                  borderRadius: 10,
+                                  border: "1px solid #ddd",
+                                  background: "#fff",
+                                  cursor: "pointer",
+                                  fontWeight: 700,
+                                }}
+                              >
+                                + Session
+                              </button>
+                            </div>
                           </div>
 
+                          {rulesFolderId === f.id && rulesDraft ? (
+                            <div style={{ marginTop: 10, borderTop: "1px solid #eee", paddingTop: 10 }}>
+                              <div style={{ color: "#777", fontSize: 12, marginBottom: 8 }}>
+                                One entry per line. Added to the built-in rules for every session in this file.
+                              </div>
+
+                              {RULE_FIELDS.map((field) => (
+                                <div key={field.key} style={{ marginBottom: 8 }}>
+                                  <div style={{ fontWeight: 800, fontSize: 12, marginBottom: 4 }}>{field.label}</div>
+                                  <textarea
+                                    value={rulesDraft[field.key]}
+                                    onChange={(e) => setRulesDraft({ ...rulesDraft, [field.key]: e.target.value })}
+                                    placeholder={field.placeholder}
+                                    style={{
+                                      width: "100%",
+                                      minHeight: 56,
+                                      borderRadius: 10,
+                                      border: "1px solid #ddd",
+                                      padding: 8,
+                                      fontSize: 13,
+                                      lineHeight: 1.4,
+                                      resize: "vertical",
+                                    }}
+                                  />
+                                </div>
+                              ))}
+
+                              <div style={{ display: "flex", gap: 8 }}>
+                                <button
+                                  onClick={() => saveRulesEditor(f)}
+                                  style={{
+                                    padding: "6px 10px",
+                                    borderRadius: 10,
+                                    border: "1px solid #111",
+                                    background: "#111",
+                                    color: "#fff",
+                                    cursor: "pointer",
+                                    fontWeight: 800,
+                                  }}
+                                >
+                                  Save Rules
+                                </button>
+                                <button
+                                  onClick={closeRulesEditor}
+                                  style={{
+                                    padding: "6px 10px",
+                                    borderRadius: 10,
+                                    border: "1px solid #ddd",
+                                    background: "#fff",
+                                    cursor: "pointer",
+                                    fontWeight: 700,
+                                  }}
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            </div>
+                          ) : null}
+
                           <div style={{ marginTop: 10, display: "flex", flexDirection: "column", gap: 8 }}>
                             {list.length === 0 ? (
                               <div style={{ color: "#777", fontSize: 13 }}>No Sessions Yet.</div>
@@ -790,6 +1178,22 @@ export default function Page() {
                   >
                     + New Session
                   </button>
+                  <button
+                    onClick={() => handleDeleteSession(currentSession)}
+                    style={{
+                      width: "100%",
+                      marginTop: 8,
+                      padding: "10px 12px",
+                      borderRadius: 12,
+                      border: "1px solid #ddd",
+                      background: "#fff",
+                      color: "#b00",
+                      cursor: "pointer",
+                      fontWeight: 800,
+                    }}
+                  >
+                    Delete Session
+                  </button>
                 </div>
 
                 {/* Past session follow-ups entry point */}
@@ -840,6 +1244,24 @@ export default function Page() {
                       }}
                     />
 
+                    <select
+                      value={currentSession.locale ?? "auto"}
+                      onChange={(e) => patchSession({ locale: asLocalePreference(e.target.value) }, { clearRedo: true })}
+                      title="Language of the notes (used to find action items, owners and due dates)"
+                      style={{
+                        padding: "10px 12px",
+                        borderRadius: 10,
+                        border: "1px solid #ddd",
+                        background: "#fff",
+                      }}
+                    >
+                      {(Object.keys(LOCALE_LABELS) as LocalePreference[]).map((l) => (
+                        <option key={l} value={l}>
+                          {LOCALE_LABELS[l]}
+                        </option>
+                      ))}
+                    </select>
+
                     <div style={{ color: "#666", fontSize: 13 }}>
                       <b>{modeLabel(currentSession.mode)}</b>
                     </div>
@@ -892,6 +1314,32 @@ export default function Page() {
                       }}
                     />
                   </div>
+
+                  <div style={{ marginTop: 10 }}>
+                    <textarea
+                      value={attendeesDraft ?? formatAttendees(currentSession.attendees ?? [])}
+                      onChange={(e) => setAttendeesDraft(e.target.value)}
+                      onBlur={() => {
+                        if (attendeesDraft === null) return;
+                        patchSession({ attendees: parseAttendees(attendeesDraft) }, { clearRedo: true });
+                        setAttendeesDraft(null);
+                      }}
+                      placeholder={"Attendees (Optional), one per line: Jackie Martin (jmartin, Jax) <jackie@acme.com>"}
+                      style={{
+                        width: "100%",
+                        minHeight: 64,
+                        padding: "10px 12px",
+                        borderRadius: 12,
+                        border: "1px solid #ddd",
+                        fontSize: 13,
+                        lineHeight: 1.4,
+                        resize: "vertical",
+                      }}
+                    />
+                    <div style={{ marginTop: 4, color: "#777", fontSize: 12 }}>
+                      Action item owners are matched to these names; unknown owners are flagged in Checks.
+                    </div>
+                  </div>
                 </div>
 
                 <div className="recap-home-grid" style={{ marginTop: 16 }}>
@@ -1194,11 +1642,123 @@ export default function Page() {
                   <div style={{ border: "1px solid #eee", borderRadius: 14, padding: 14 }}>
                     <div style={{ fontWeight: 900, marginBottom: 10 }}>Outputs</div>
 
+                    {genProgress ? (
+                      <div
+                        style={{
+                          display: "flex",
+                          alignItems: "center",
+                          gap: 10,
+                          border: "1px solid #ddd",
+                          borderRadius: 12,
+                          padding: "8px 12px",
+                          marginBottom: 12,
+                          background: "#f6f6f6",
+                        }}
+                      >
+                        <div style={{ fontSize: 13, fontWeight: 800 }}>{genProgress}</div>
+                        <div style={{ flex: 1 }} />
+                        <button
+                          onClick={cancelGenerate}
+                          style={{
+                            padding: "6px 10px",
+                            borderRadius: 10,
+                            border: "1px solid #ddd",
+                            background: "#fff",
+                            cursor: "pointer",
+                            fontWeight: 900,
+                          }}
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : null}
+
+                    {currentSession.pendingRefinement ? (
+                      <div
+                        style={{
+                          border: "1px solid #111",
+                          borderRadius: 12,
+                          padding: 12,
+                          marginBottom: 12,
+                          background: "#fffdf5",
+                        }}
+                      >
+                        <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+                          <div style={{ fontWeight: 900 }}>Refined version available</div>
+                          <div style={{ color: "#777", fontSize: 12 }}>
+                            {currentSession.pendingRefinement.changes.length} change
+                            {currentSession.pendingRefinement.changes.length === 1 ? "" : "s"}
+                            {currentSession.pendingRefinement.model
+                              ? ` · ${currentSession.pendingRefinement.model}`
+                              : ""}
+                          </div>
+                          <div style={{ flex: 1 }} />
+                          <button
+                            onClick={acceptRefinement}
+                            style={{
+                              padding: "6px 10px",
+                              borderRadius: 10,
+                              border: "1px solid #111",
+                              background: "#111",
+                              color: "#fff",
+                              cursor: "pointer",
+                              fontWeight: 900,
+                            }}
+                          >
+                            Accept
+                          </button>
+                          <button
+                            onClick={rejectRefinement}
+                            style={{
+                              padding: "6px 10px",
+                              borderRadius: 10,
+                              border: "1px solid #ddd",
+                              background: "#fff",
+                              cursor: "pointer",
+                              fontWeight: 900,
+                            }}
+                          >
+                            Reject
+                          </button>
+                        </div>
+
+                        <div style={{ marginTop: 10, maxHeight: 260, overflowY: "auto" }}>
+                          {groupRefineChanges(currentSession.pendingRefinement.changes).map((group) => (
+                            <div key={group.title} style={{ marginBottom: 10 }}>
+                              <div style={{ fontWeight: 900, fontSize: 12, color: "#555", marginBottom: 4 }}>
+                                {group.title}
+                              </div>
+                              {group.changes.map((c, idx) => (
+                                <div key={idx} style={{ fontSize: 13, lineHeight: 1.4, marginBottom: 6 }}>
+                                  <span style={{ fontWeight: 900 }}>{CHANGE_LABELS[c.kind]}: </span>
+                                  {c.before ? (
+                                    <span
+                                      style={{
+                                        whiteSpace: "pre-wrap",
+                                        color: "#a00",
+                                        textDecoration: c.kind === "removed" ? "line-through" : undefined,
+                                      }}
+                                    >
+                                      {c.before}
+                                    </span>
+                                  ) : null}
+                                  {c.before && c.after ? " → " : null}
+                                  {c.after ? (
+                                    <span style={{ whiteSpace: "pre-wrap", color: "#070" }}>{c.after}</span>
+                                  ) : null}
+                                </div>
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ) : null}
+
                     <div>
                       <div style={{ marginBottom: 12 }}>
                         <div style={{ fontWeight: 900, marginBottom: 8 }}>Summary</div>
                         <textarea
-                          value={currentSession.outputs.summary || ""}
+                          value={genPreview?.summary ?? (currentSession.outputs.summary || "")}
                           readOnly
                           placeholder="Summary output..."
                           style={{
@@ -1218,7 +1778,7 @@ export default function Page() {
                       <div style={{ marginBottom: 12 }}>
                         <div style={{ fontWeight: 900, marginBottom: 8 }}>Action Items</div>
                         <textarea
-                          value={currentSession.outputs.actionItems || ""}
+                          value={genPreview?.actionItems ?? (currentSession.outputs.actionItems || "")}
                           readOnly
                           placeholder="Action items output..."
                           style={{
@@ -1234,6 +1794,89 @@ export default function Page() {
                           }}
                         />
                       </div>
+
+                      {!genPreview && currentSession.outputs.structuredActionItems?.length ? (
+                        <div style={{ marginBottom: 12 }}>
+                          <div style={{ fontWeight: 900, marginBottom: 4 }}>Sources</div>
+                          <div style={{ color: "#666", fontSize: 12, marginBottom: 8 }}>
+                            Click an action item to see the note line it came from.
+                          </div>
+
+                          {currentSession.outputs.structuredActionItems.map((item) => {
+                            const ungrounded = item.issues.some((i) => i.type === "ungrounded");
+                            const open = sourceItemId === item.id;
+                            const excerpt = open ? sourceExcerpt(currentSession, item) : null;
+
+                            return (
+                              <div key={item.id} style={{ marginBottom: 6 }}>
+                                <button
+                                  onClick={() => setSourceItemId(open ? null : item.id)}
+                                  style={{
+                                    width: "100%",
+                                    textAlign: "left",
+                                    padding: "6px 10px",
+                                    borderRadius: 10,
+                                    border: open ? "1px solid #111" : "1px solid #ddd",
+                                    background: "#fff",
+                                    cursor: "pointer",
+                                    fontSize: 13,
+                                  }}
+                                >
+                                  {item.text}
+                                  {ungrounded ? (
+                                    <span style={{ marginLeft: 8, color: "#a00", fontWeight: 900, fontSize: 12 }}>
+                                      Not in notes
+                                    </span>
+                                  ) : null}
+                                </button>
+
+                                {open ? (
+                                  <div
+                                    style={{
+                                      marginTop: 4,
+                                      padding: 8,
+                                      borderRadius: 10,
+                                      border: "1px solid #eee",
+                                      background: "#fafafa",
+                                      fontSize: 13,
+                                      lineHeight: 1.4,
+                                    }}
+                                  >
+                                    {!excerpt ? (
+                                      <div style={{ color: "#a00" }}>
+                                        No note line supports this item. Check it before sharing.
+                                      </div>
+                                    ) : (
+                                      <>
+                                        {excerpt.stale ? (
+                                          <div style={{ color: "#6a4b00", fontSize: 12, marginBottom: 4 }}>
+                                            Notes changed since this was generated; regenerate to refresh sources.
+                                          </div>
+                                        ) : null}
+                                        {excerpt.lines.map((l) => (
+                                          <div
+                                            key={l.line}
+                                            style={{
+                                              display: "flex",
+                                              gap: 8,
+                                              background: l.cited ? "#fff3a8" : undefined,
+                                              fontWeight: l.cited ? 700 : undefined,
+                                              whiteSpace: "pre-wrap",
+                                            }}
+                                          >
+                                            <span style={{ color: "#999", minWidth: 28, textAlign: "right" }}>{l.line}</span>
+                                            <span>{l.text}</span>
+                                          </div>
+                                        ))}
+                                      </>
+                                    )}
+                                  </div>
+                                ) : null}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      ) : null}
                     </div>
                   </div>
                 </div>
@@ -12,6 +12,7 @@ import {
   type FollowUpData,
   type FollowUpStatus,
 } from "@/lib/sessionStore";
+import { pushChanges } from "@/lib/sync";
 
 import type { EmailTone, EmailType, MeetingResult } from "@/lib/types";
 
@@ -135,6 +136,9 @@ export default function FollowUpPage() {
         : x
     );
     persist(next);
+
+    // Server copy; if this fails the home page's next sync pushes it
+    void pushChanges({ sessions: next.filter((x) => x.id === updatedSession.id) });
   }
 
   function patchFollowUp(patch: Partial<FollowUpData>) {
@@ -193,7 +197,10 @@ export default function FollowUpPage() {
         throw new Error("Generation failed");
       }
 
-      patchFollowUp({ emailDraft: String(data.email ?? "") });
+      patchFollowUp({
+        emailDraft: String(data.email ?? ""),
+        emailDraftSource: data.path === "ai" ? "ai" : "template",
+      });
     } catch (err) {
       console.error("Follow-up generate error:", err);
       setErrorMsg("Email generation failed.");
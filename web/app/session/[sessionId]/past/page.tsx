@@ -5,6 +5,7 @@ import { useMemo, useState, useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
 
 import { loadSessions, saveSessions, addFollowUpToSession, type Session } from "@/lib/sessionStore";
+import { pushChanges } from "@/lib/sync";
 
 function toOne(param: string | string[] | undefined): string | null {
   if (!param) return null;
@@ -61,6 +62,9 @@ export default function PastMeetingPage() {
       x.id === updatedSession.id ? { ...updatedSession, updatedAt: Date.now() } : x
     );
     persist(next);
+
+    // Server copy; if this fails the home page's next sync pushes it
+    void pushChanges({ sessions: next.filter((x) => x.id === updatedSession.id) });
   }
 
   function createFollowUp() {
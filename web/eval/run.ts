@@ -0,0 +1,233 @@
+// web/eval/run.ts
+// Offline eval for the recap pipeline: runs every fixture in eval/fixtures through the
+// deterministic pass (and the AI pipeline when a provider is configured), scores action items,
+// owners, due dates and issues, and compares the totals against eval/baseline.json.
+//
+//   npm run eval                       deterministic + configured provider (RECAPKIT_AI_* env)
+//   npm run eval -- --engine deterministic
+//   npm run eval -- --fixture owners-and-handles --verbose
+//   npm run eval -- --update-baseline  store this run as the new baseline
+//
+// AI runs use the routing of --tier (default pro); quotas and the usage ledger are not involved.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { buildMergedNotes, recapNotes, type StructuredActionItem } from "@/lib/recap";
+import { normalizeAttendees } from "@/lib/roster";
+import { resolveLocale } from "@/lib/lexicons";
+import { normalizeExtractionRules } from "@/lib/extractionRules";
+import { getProvider } from "@/lib/ai/execute";
+import { runGeneratePipeline } from "@/lib/ai/pipeline";
+import type { AIProvider } from "@/lib/ai/provider";
+import type { Tier } from "@/lib/types/tier";
+import { metrics, scoreFixture, sumCounts, type EvalFixture, type FixtureScore, type Metrics } from "./score";
+
+const EVAL_DIR = path.join(process.cwd(), "eval");
+const FIXTURES_DIR = path.join(EVAL_DIR, "fixtures");
+const BASELINE_PATH = path.join(EVAL_DIR, "baseline.json");
+
+type Baseline = {
+  updatedAt: string;
+  engines: Record<string, { metrics: Metrics; fixtures: Record<string, Metrics> }>;
+};
+
+type Args = {
+  engine: "all" | "deterministic" | "ai";
+  tier: Tier;
+  fixture?: string;
+  updateBaseline: boolean;
+  verbose: boolean;
+};
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { engine: "all", tier: "pro", updateBaseline: false, verbose: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--engine") {
+      const v = argv[++i];
+      if (v !== "all" && v !== "deterministic" && v !== "ai") throw new Error(`--engine: expected all, deterministic or ai`);
+      args.engine = v;
+    } else if (a === "--tier") {
+      const v = argv[++i];
+      if (v !== "free" && v !== "basic" && v !== "premium" && v !== "pro") throw new Error(`--tier: unknown tier "${v}"`);
+      args.tier = v;
+    } else if (a === "--fixture") {
+      args.fixture = argv[++i];
+    } else if (a === "--update-baseline") {
+      args.updateBaseline = true;
+    } else if (a === "--verbose" || a === "-v") {
+      args.verbose = true;
+    } else {
+      throw new Error(`Unknown argument: ${a}`);
+    }
+  }
+  return args;
+}
+
+/* -------------------- fixtures -------------------- */
+
+async function loadFixtures(only?: string): Promise<EvalFixture[]> {
+  const files = (await fs.readdir(FIXTURES_DIR)).filter((f) => f.endsWith(".json")).sort();
+  const out: EvalFixture[] = [];
+
+  for (const file of files) {
+    const name = file.replace(/\.json$/, "");
+    if (only && name !== only) continue;
+    const raw = JSON.parse(await fs.readFile(path.join(FIXTURES_DIR, file), "utf8")) as Omit<EvalFixture, "name">;
+    out.push({ ...raw, name });
+  }
+
+  if (!out.length) throw new Error(only ? `No fixture named "${only}"` : `No fixtures in ${FIXTURES_DIR}`);
+  return out;
+}
+
+async function loadBaseline(): Promise<Baseline | null> {
+  try {
+    return JSON.parse(await fs.readFile(BASELINE_PATH, "utf8")) as Baseline;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/* -------------------- running -------------------- */
+
+// Same inputs /api/generate would build from a session
+function prepare(fixture: EvalFixture) {
+  const { input } = fixture;
+  const notes = buildMergedNotes({
+    rawNotes: input.rawNotes,
+    postMeetingNotes: input.postMeetingNotes ?? "",
+    meetingOutcome: input.meetingOutcome ?? "",
+  });
+  const deterministic = recapNotes(notes, {
+    roster: normalizeAttendees(input.attendees),
+    dueDates: { meetingDate: input.meetingDate, timeZone: input.timeZone },
+    locale: resolveLocale(input.locale, notes),
+    rules: normalizeExtractionRules(input.extractionRules),
+  });
+  return { notes, deterministic };
+}
+
+async function predictAi(fixture: EvalFixture, provider: AIProvider, tier: Tier): Promise<StructuredActionItem[]> {
+  const { notes, deterministic } = prepare(fixture);
+  const ai = await runGeneratePipeline({
+    provider,
+    tier,
+    addOns: {},
+    stats: { rawNotesChars: fixture.input.rawNotes.length, mergedNotesChars: notes.length },
+    notes,
+    deterministic: {
+      normalized: deterministic.normalized,
+      outputs: { summary: deterministic.summary, actionItems: deterministic.actionItems, email: "" },
+      structuredActionItems: deterministic.structuredActionItems,
+    },
+  });
+  return ai.structuredActionItems ?? deterministic.structuredActionItems;
+}
+
+/* -------------------- report -------------------- */
+
+const METRIC_LABELS: Record<keyof Metrics, string> = {
+  precision: "Action precision",
+  recall: "Action recall",
+  f1: "Action F1",
+  owner: "Owner accuracy",
+  due: "Due phrase accuracy",
+  dueDate: "Due date accuracy",
+  issuePrecision: "Issue precision",
+  issueRecall: "Issue recall",
+};
+
+function pct(x: number): string {
+  return `${(x * 100).toFixed(1)}%`;
+}
+
+function printFixtures(scores: FixtureScore[], verbose: boolean) {
+  for (const s of scores) {
+    const m = metrics(s.counts);
+    const flag = s.missed.length || s.extra.length || s.fieldErrors.length ? "✗" : "✓";
+    console.log(
+      `  ${flag} ${s.fixture.padEnd(28)} P ${pct(m.precision).padStart(6)}  R ${pct(m.recall).padStart(6)}  ` +
+        `fields ${s.counts.fields.owner.correct + s.counts.fields.due.correct + s.counts.fields.dueDate.correct}/` +
+        `${s.counts.fields.owner.checked + s.counts.fields.due.checked + s.counts.fields.dueDate.checked}`
+    );
+    if (!verbose) continue;
+    for (const t of s.missed) console.log(`      missed: ${t}`);
+    for (const t of s.extra) console.log(`      extra:  ${t}`);
+    for (const e of s.fieldErrors) console.log(`      ${e}`);
+  }
+}
+
+function printComparison(current: Metrics, baseline?: Metrics) {
+  console.log(`  ${"Metric".padEnd(22)}${"Baseline".padStart(10)}${"Current".padStart(10)}${"Delta".padStart(10)}`);
+  for (const key of Object.keys(METRIC_LABELS) as (keyof Metrics)[]) {
+    const before = baseline?.[key];
+    const delta = before === undefined ? "" : current[key] - before;
+    const deltaText =
+      delta === "" ? "n/a" : Math.abs(delta) < 0.0005 ? "=" : `${delta > 0 ? "+" : ""}${(delta * 100).toFixed(1)}`;
+    console.log(
+      `  ${METRIC_LABELS[key].padEnd(22)}${(before === undefined ? "-" : pct(before)).padStart(10)}` +
+        `${pct(current[key]).padStart(10)}${deltaText.padStart(10)}`
+    );
+  }
+}
+
+/* -------------------- main -------------------- */
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const fixtures = await loadFixtures(args.fixture);
+  const baseline = await loadBaseline();
+
+  const engines: { key: string; predict: (f: EvalFixture) => Promise<StructuredActionItem[]> }[] = [];
+  if (args.engine !== "ai") {
+    engines.push({ key: "deterministic", predict: async (f) => prepare(f).deterministic.structuredActionItems });
+  }
+  if (args.engine !== "deterministic") {
+    const provider = getProvider();
+    if (provider) {
+      engines.push({ key: `ai:${provider.name}:${args.tier}`, predict: (f) => predictAi(f, provider, args.tier) });
+    } else if (args.engine === "ai") {
+      throw new Error("No AI provider configured (set RECAPKIT_AI_PROVIDER / RECAPKIT_AI_API_KEY)");
+    }
+  }
+
+  const next: Baseline = { updatedAt: new Date().toISOString(), engines: { ...baseline?.engines } };
+
+  for (const engine of engines) {
+    console.log(`\n${engine.key} (${fixtures.length} fixtures)`);
+
+    const scores: FixtureScore[] = [];
+    for (const fixture of fixtures) scores.push(scoreFixture(fixture, await engine.predict(fixture)));
+    printFixtures(scores, args.verbose);
+
+    const total = metrics(sumCounts(scores.map((s) => s.counts)));
+    // A single-fixture run compares against that fixture's baseline, not the totals
+    const before = args.fixture
+      ? baseline?.engines[engine.key]?.fixtures[args.fixture]
+      : baseline?.engines[engine.key]?.metrics;
+    console.log("");
+    printComparison(total, before);
+
+    next.engines[engine.key] = {
+      metrics: total,
+      fixtures: Object.fromEntries(scores.map((s) => [s.fixture, metrics(s.counts)])),
+    };
+  }
+
+  if (args.updateBaseline) {
+    if (args.fixture) throw new Error("--update-baseline needs the full fixture set (drop --fixture)");
+    // 4 decimals keep baseline diffs readable
+    const round = (_key: string, v: unknown) => (typeof v === "number" ? Math.round(v * 10_000) / 10_000 : v);
+    await fs.writeFile(BASELINE_PATH, `${JSON.stringify(next, round, 2)}\n`, "utf8");
+    console.log(`\nBaseline written to ${path.relative(process.cwd(), BASELINE_PATH)}`);
+  } else if (!baseline) {
+    console.log("\nNo baseline yet: run with --update-baseline to store one.");
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,207 @@
+// web/eval/score.ts
+// Scoring for the offline eval harness: predicted action items/issues vs a fixture's expectations.
+// Items are paired with the same fuzzy rule the pipeline uses to merge duplicates.
+
+import { isSameActionText, type ActionIssue, type StructuredActionItem } from "@/lib/recap";
+import type { Attendee } from "@/lib/roster";
+import type { LocalePreference } from "@/lib/lexicons";
+
+/* -------------------- fixtures -------------------- */
+
+export type ExpectedActionItem = {
+  text: string;
+  // Omitted = not scored; null = the item must have none
+  owner?: string | null;
+  due?: string | null; // due phrase as written
+  dueDate?: string | null; // YYYY-MM-DD
+};
+
+export type ExpectedIssue = {
+  type: ActionIssue["type"];
+  item: string; // text of the expected action item it belongs to
+};
+
+export type EvalFixture = {
+  name: string; // file name without .json
+  description?: string;
+  input: {
+    rawNotes: string;
+    postMeetingNotes?: string;
+    meetingOutcome?: string;
+    meetingDate: string; // YYYY-MM-DD; relative due dates resolve against it
+    timeZone?: string;
+    attendees?: Attendee[];
+    locale?: LocalePreference;
+    extractionRules?: unknown;
+  };
+  expected: {
+    actionItems: ExpectedActionItem[];
+    issues?: ExpectedIssue[];
+  };
+};
+
+/* -------------------- scores -------------------- */
+
+export type FieldName = "owner" | "due" | "dueDate";
+export const FIELDS: FieldName[] = ["owner", "due", "dueDate"];
+
+export type Counts = {
+  expected: number;
+  predicted: number;
+  matched: number;
+  fields: Record<FieldName, { checked: number; correct: number }>;
+  issues: { expected: number; predicted: number; matched: number };
+};
+
+export type FixtureScore = {
+  fixture: string;
+  counts: Counts;
+  missed: string[]; // expected items with no predicted match
+  extra: string[]; // predicted items with no expected match
+  fieldErrors: string[]; // "owner: expected X, got Y (item)"
+};
+
+export type Metrics = {
+  precision: number;
+  recall: number;
+  f1: number;
+  owner: number;
+  due: number;
+  dueDate: number;
+  issuePrecision: number;
+  issueRecall: number;
+};
+
+function emptyCounts(): Counts {
+  return {
+    expected: 0,
+    predicted: 0,
+    matched: 0,
+    fields: { owner: { checked: 0, correct: 0 }, due: { checked: 0, correct: 0 }, dueDate: { checked: 0, correct: 0 } },
+    issues: { expected: 0, predicted: 0, matched: 0 },
+  };
+}
+
+function norm(x: string | null | undefined): string {
+  return (x ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// Several owners may come back in any order ("Sam, Ana" == "Ana, Sam")
+function sameOwner(expected: string | null, got: string | undefined): boolean {
+  const split = (s: string | null | undefined) =>
+    norm(s)
+      .split(/\s*,\s*/)
+      .filter(Boolean)
+      .sort()
+      .join(",");
+  return split(expected) === split(got);
+}
+
+/** Greedy pairing in expected order: each expected item takes the first unused predicted match. */
+function pairItems(expected: ExpectedActionItem[], predicted: StructuredActionItem[]) {
+  const used = new Set<number>();
+  const pairs: { expected: ExpectedActionItem; predicted?: StructuredActionItem }[] = [];
+
+  for (const exp of expected) {
+    const idx = predicted.findIndex(
+      (p, i) => !used.has(i) && (norm(p.text) === norm(exp.text) || isSameActionText(p.text, exp.text))
+    );
+    if (idx >= 0) used.add(idx);
+    pairs.push({ expected: exp, predicted: idx >= 0 ? predicted[idx] : undefined });
+  }
+
+  const extra = predicted.filter((_, i) => !used.has(i));
+  return { pairs, extra };
+}
+
+export function scoreFixture(fixture: EvalFixture, predicted: StructuredActionItem[]): FixtureScore {
+  const counts = emptyCounts();
+  const expected = fixture.expected.actionItems;
+  const { pairs, extra } = pairItems(expected, predicted);
+
+  counts.expected = expected.length;
+  counts.predicted = predicted.length;
+
+  const missed: string[] = [];
+  const fieldErrors: string[] = [];
+
+  for (const { expected: exp, predicted: got } of pairs) {
+    if (!got) {
+      missed.push(exp.text);
+      continue;
+    }
+    counts.matched++;
+
+    for (const field of FIELDS) {
+      const want = exp[field];
+      if (want === undefined) continue;
+
+      const value = got[field];
+      const ok = field === "owner" ? sameOwner(want, value) : norm(want) === norm(value);
+      counts.fields[field].checked++;
+      if (ok) counts.fields[field].correct++;
+      else fieldErrors.push(`${field}: expected ${want ?? "none"}, got ${value ?? "none"} (${exp.text})`);
+    }
+  }
+
+  // Issues count when their type matches and they sit on the item the fixture names.
+  // Fixtures without an `issues` list don't score issues at all.
+  const expectedIssues = fixture.expected.issues ?? [];
+  const predictedIssues = fixture.expected.issues
+    ? predicted.flatMap((p) => p.issues.map((i) => ({ type: i.type, item: p })))
+    : [];
+  const usedIssues = new Set<number>();
+
+  counts.issues.expected = expectedIssues.length;
+  counts.issues.predicted = predictedIssues.length;
+  for (const exp of expectedIssues) {
+    const item = pairs.find((p) => norm(p.expected.text) === norm(exp.item))?.predicted;
+    if (!item) continue;
+    const idx = predictedIssues.findIndex((p, i) => !usedIssues.has(i) && p.type === exp.type && p.item === item);
+    if (idx >= 0) {
+      usedIssues.add(idx);
+      counts.issues.matched++;
+    }
+  }
+
+  return { fixture: fixture.name, counts, missed, extra: extra.map((p) => p.text), fieldErrors };
+}
+
+/* -------------------- aggregation -------------------- */
+
+function ratio(num: number, den: number): number {
+  // Nothing to get wrong counts as perfect (ex: no items expected and none predicted)
+  return den ? num / den : 1;
+}
+
+export function sumCounts(list: Counts[]): Counts {
+  const total = emptyCounts();
+  for (const c of list) {
+    total.expected += c.expected;
+    total.predicted += c.predicted;
+    total.matched += c.matched;
+    for (const f of FIELDS) {
+      total.fields[f].checked += c.fields[f].checked;
+      total.fields[f].correct += c.fields[f].correct;
+    }
+    total.issues.expected += c.issues.expected;
+    total.issues.predicted += c.issues.predicted;
+    total.issues.matched += c.issues.matched;
+  }
+  return total;
+}
+
+export function metrics(c: Counts): Metrics {
+  const precision = ratio(c.matched, c.predicted);
+  const recall = ratio(c.matched, c.expected);
+  return {
+    precision,
+    recall,
+    f1: precision + recall ? (2 * precision * recall) / (precision + recall) : 0,
+    owner: ratio(c.fields.owner.correct, c.fields.owner.checked),
+    due: ratio(c.fields.due.correct, c.fields.due.checked),
+    dueDate: ratio(c.fields.dueDate.correct, c.fields.dueDate.checked),
+    issuePrecision: ratio(c.issues.matched, c.issues.predicted),
+    issueRecall: ratio(c.issues.matched, c.issues.expected),
+  };
+}
@@ -0,0 +1,10 @@
+// web/instrumentation.ts
+// Server startup hook (Next.js): fail fast on a bad AI routing config instead of on the first request.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { getRoutingConfig } = await import("@/lib/ai/routingConfig");
+  const { sources } = getRoutingConfig(); // throws RoutingConfigError with every problem found
+  if (sources.length > 1) console.log(`AI routing config: ${sources.join(" + ")}`);
+}
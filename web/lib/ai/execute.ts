@@ -0,0 +1,229 @@
+// web/lib/ai/execute.ts
+// Provider selection + running a single AI task (request, timing, validation, repair retry).
+
+import type { AITask } from "@/lib/ai/tasks";
+import type { AIProvider } from "@/lib/ai/provider";
+import type { TaskPrompt } from "@/lib/ai/prompts";
+import { estimateTokens } from "@/lib/ai/tokens";
+import { CONTRACT_SHAPES, type Validation, type Validator } from "@/lib/ai/schemas";
+import { createMockProvider } from "@/lib/ai/providers/mock";
+import { createOpenAICompatibleProvider } from "@/lib/ai/providers/openaiCompatible";
+
+/* -------------------- provider selection -------------------- */
+
+export type ProviderName = "openai" | "mock" | "off";
+
+function envProviderName(env: NodeJS.ProcessEnv): ProviderName {
+  const v = String(env.RECAPKIT_AI_PROVIDER ?? "").trim().toLowerCase();
+  if (v === "openai" || v === "mock" || v === "off") return v;
+  // Unset: use the HTTP client only when it has somewhere to go
+  return env.RECAPKIT_AI_API_KEY || env.OPENAI_API_KEY || env.RECAPKIT_AI_BASE_URL ? "openai" : "off";
+}
+
+/**
+ * Provider for this process, or null when AI is off (deterministic path only).
+ *
+ * Env:
+ * - RECAPKIT_AI_PROVIDER: "openai" | "mock" | "off"
+ * - RECAPKIT_AI_BASE_URL: OpenAI-compatible endpoint (default https://api.openai.com/v1; ex: http://localhost:11434/v1)
+ * - RECAPKIT_AI_API_KEY (or OPENAI_API_KEY)
+ * - RECAPKIT_AI_TIMEOUT_MS (default 60000)
+ */
+export function getProvider(env: NodeJS.ProcessEnv = process.env): AIProvider | null {
+  const name = envProviderName(env);
+  if (name === "off") return null;
+  if (name === "mock") return createMockProvider();
+
+  const timeoutMs = Number(env.RECAPKIT_AI_TIMEOUT_MS);
+  return createOpenAICompatibleProvider({
+    baseUrl: env.RECAPKIT_AI_BASE_URL,
+    apiKey: env.RECAPKIT_AI_API_KEY || env.OPENAI_API_KEY,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : undefined,
+  });
+}
+
+/* -------------------- running a task -------------------- */
+
+export type AIStepStatus = "ok" | "skipped" | "failed";
+
+/** One line of the debug trace: what ran, on which model, and how it went. */
+export type AIStepReport = {
+  task: AITask;
+  model: string;
+  status: AIStepStatus;
+  promptVersion?: string; // registry version the prompt was rendered from (lib/ai/prompts.ts)
+  ms?: number;
+  error?: string;
+  attempts?: number; // 2 when a repair retry was needed
+  repaired?: boolean; // the repair retry produced the accepted output
+  validationErrors?: string[]; // contract violations seen on any attempt
+  coerced?: string[]; // near-misses fixed up in the accepted output
+  inputTokens?: number; // all attempts; provider-reported when available, else estimated
+  outputTokens?: number;
+  chunk?: number; // map-reduce generation: index of the notes chunk this step ran on
+};
+
+export type TaskResult<T> = { ok: true; value: T; report: AIStepReport } | { ok: false; report: AIStepReport };
+
+/** Models sometimes wrap JSON in a ```json fence despite instructions. */
+export function parseJsonResponse(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : text).trim();
+  return JSON.parse(body);
+}
+
+function checkResponse<T>(text: string, validate: Validator<T>): Validation<T> {
+  let json: unknown;
+  try {
+    json = parseJsonResponse(text);
+  } catch (err) {
+    return { ok: false, errors: [`Invalid JSON: ${(err as Error).message}`] };
+  }
+  return validate(json);
+}
+
+function repairPrompt(prompt: TaskPrompt, badText: string, errors: string[]): TaskPrompt {
+  const shape = CONTRACT_SHAPES[prompt.task];
+  return {
+    ...prompt,
+    prompt: [
+      prompt.prompt,
+      "",
+      "Your previous response could not be used:",
+      ...errors.map((e) => `- ${e}`),
+      "",
+      "Previous response:",
+      badText.slice(0, 2000),
+      "",
+      shape ? `Return only a corrected JSON object shaped like ${shape}.` : "Return only a corrected JSON object.",
+    ].join("\n"),
+  };
+}
+
+/**
+ * Thrown by runTask when the caller cancels. Carries what the task had used so far (the
+ * cancelled request included) so it still reaches the usage ledger.
+ */
+export class TaskAbortedError extends Error {
+  constructor(
+    public readonly report: AIStepReport,
+    cause: unknown
+  ) {
+    super(`${report.task} was cancelled`);
+    this.name = "TaskAbortedError";
+    this.cause = cause;
+  }
+}
+
+/**
+ * Run one task and validate the response against its contract. Malformed output gets
+ * one repair retry (the errors are sent back to the model). Never throws for
+ * provider/validation problems: failures come back as a report so the caller can fall
+ * back to the deterministic output.
+ */
+export async function runTask<T>(
+  provider: AIProvider,
+  params: { task: AITask; model: string; prompt: TaskPrompt; validate: Validator<T>; signal?: AbortSignal }
+): Promise<TaskResult<T>> {
+  const { task, model, validate, signal } = params;
+  const started = Date.now();
+  const validationErrors: string[] = [];
+
+  let prompt = params.prompt;
+  let answeredBy = model;
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    let text: string;
+    try {
+      const res = await provider.complete({ ...prompt, task, model, json: true, signal });
+      text = res.text;
+      answeredBy = res.model;
+      inputTokens += res.usage?.inputTokens ?? estimateTokens(`${prompt.system}\n${prompt.prompt}`, model);
+      outputTokens += res.usage?.outputTokens ?? estimateTokens(text, model);
+    } catch (err) {
+      // Caller cancellation is not a provider failure: let it propagate (with the tokens so far)
+      if (signal?.aborted) {
+        throw new TaskAbortedError(
+          {
+            task,
+            promptVersion: params.prompt.version,
+            model,
+            status: "failed",
+            ms: Date.now() - started,
+            error: "Cancelled",
+            attempts: attempt,
+            validationErrors: validationErrors.length ? validationErrors : undefined,
+            // The request was sent: count its prompt
+            inputTokens: inputTokens + estimateTokens(`${prompt.system}\n${prompt.prompt}`, model),
+            outputTokens,
+          },
+          err
+        );
+      }
+
+      // Transport errors are not retried with a repair prompt: the model never saw the request
+      const error = String((err as Error)?.message ?? err);
+      return {
+        ok: false,
+        report: {
+          task,
+          promptVersion: params.prompt.version,
+          model,
+          status: "failed",
+          ms: Date.now() - started,
+          error,
+          attempts: attempt,
+          validationErrors,
+          inputTokens,
+          outputTokens,
+        },
+      };
+    }
+
+    const checked = checkResponse(text, validate);
+    if (checked.ok) {
+      return {
+        ok: true,
+        value: checked.value,
+        report: {
+          task,
+          promptVersion: params.prompt.version,
+          model: answeredBy,
+          status: "ok",
+          ms: Date.now() - started,
+          attempts: attempt,
+          repaired: attempt > 1 || undefined,
+          validationErrors: validationErrors.length ? validationErrors : undefined,
+          coerced: checked.coerced.length ? checked.coerced : undefined,
+          inputTokens,
+          outputTokens,
+        },
+      };
+    }
+
+    validationErrors.push(...checked.errors.map((e) => `attempt ${attempt}: ${e}`));
+    prompt = repairPrompt(params.prompt, text, checked.errors);
+  }
+
+  return {
+    ok: false,
+    report: {
+      task,
+      promptVersion: params.prompt.version,
+      model: answeredBy,
+      status: "failed",
+      ms: Date.now() - started,
+      error: "Response did not match the task contract after a repair retry",
+      attempts: 2,
+      validationErrors,
+      inputTokens,
+      outputTokens,
+    },
+  };
+}
+
+export function skippedStep(task: AITask, model: string, reason: string): AIStepReport {
+  return { task, model, status: "skipped", error: reason };
+}
@@ -0,0 +1,72 @@
+// web/lib/ai/pipeline.test.ts
+// Generate pipeline against the mock provider: step reports reach `onStep` as each step settles,
+// including when the caller cancels part-way (those tokens were spent and must be billed).
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AIStepReport } from "@/lib/ai/execute";
+import { runGeneratePipeline } from "@/lib/ai/pipeline";
+import { createMockProvider } from "@/lib/ai/providers/mock";
+import { recapNotes } from "@/lib/recap";
+
+const NOTES = ["- Logan to send the pricing deck by Friday", "- Review the vendor contract"].join("\n");
+
+function run(provider: ReturnType<typeof createMockProvider>, opts: { signal?: AbortSignal; onCore?: () => void }) {
+  const d = recapNotes(NOTES);
+  const steps: AIStepReport[] = [];
+  const result = runGeneratePipeline({
+    provider,
+    tier: "pro", // routes A, B and C
+    addOns: {},
+    stats: { rawNotesChars: NOTES.length, mergedNotesChars: NOTES.length },
+    notes: NOTES,
+    deterministic: {
+      normalized: d.normalized,
+      outputs: { summary: d.summary, actionItems: d.actionItems },
+      structuredActionItems: d.structuredActionItems,
+    },
+    signal: opts.signal,
+    onProgress: (p) => {
+      if (p.stage === "core") opts.onCore?.();
+    },
+    onStep: (s) => steps.push(s),
+  });
+  return { result, steps };
+}
+
+test("every step is reported through onStep", async () => {
+  const { result, steps } = run(createMockProvider(), {});
+  const ai = await result;
+
+  assert.deepEqual(
+    steps.map((s) => s.task),
+    ["A_NORMALIZE", "B_CORE_OUTPUTS", "C_REFINE"]
+  );
+  assert.deepEqual(steps, ai.steps);
+});
+
+test("cancelling after the core stage still reports the finished steps and the cancelled one", async () => {
+  const controller = new AbortController();
+  const mock = createMockProvider();
+  const provider = {
+    ...mock,
+    complete: (req: Parameters<typeof mock.complete>[0]) =>
+      req.task === "C_REFINE"
+        ? Promise.reject(Object.assign(new Error("aborted"), { name: "AbortError" }))
+        : mock.complete(req),
+  };
+
+  const { result, steps } = run(provider, { signal: controller.signal, onCore: () => controller.abort() });
+  await assert.rejects(result, { name: "TaskAbortedError" });
+
+  assert.deepEqual(
+    steps.map((s) => [s.task, s.status]),
+    [
+      ["A_NORMALIZE", "ok"],
+      ["B_CORE_OUTPUTS", "ok"],
+      ["C_REFINE", "failed"],
+    ]
+  );
+  // The cancelled request was sent: its prompt counts
+  assert.ok((steps[2].inputTokens ?? 0) > 0);
+});
@@ -0,0 +1,251 @@
+// web/lib/ai/pipeline.ts
+// /api/generate AI path: Task A (normalize) → Task B (core outputs) → optional Task C (refine).
+// Each step falls back to the deterministic result from lib/recap.ts when it is
+// routed to "none", there is no provider, or the output fails validation (lib/ai/schemas.ts).
+// Long notes run map-reduce: A and B per chunk, merged with lib/chunking.ts.
+// Generated action items are checked against the notes (lib/grounding.ts) before they go out.
+
+import type { Tier, AddOns } from "@/lib/types/tier";
+import type { ContextStats, CoreOutputs, NormalizerJson } from "@/lib/ai/tasks";
+import type { AIProvider } from "@/lib/ai/provider";
+import { ROUTER_TASKS } from "@/lib/ai/provider";
+import { getModelForTask, shouldRefine } from "@/lib/ai/router";
+import { renderPrompt, type TaskPrompt } from "@/lib/ai/prompts";
+import { runTask, skippedStep, TaskAbortedError, type AIStepReport, type TaskResult } from "@/lib/ai/execute";
+import { diffOutputs, type RefineChange } from "@/lib/ai/refine";
+import { mergeCoreOutputs, mergeNormalizerJson } from "@/lib/chunking";
+import { groundActionItems, type GroundingMode } from "@/lib/grounding";
+import type { ActionIssue, StructuredActionItem } from "@/lib/recap";
+import { validateCoreOutputs, validateNormalizerJson, type Validator } from "@/lib/ai/schemas";
+
+export type GeneratePipelineParams = {
+  provider: AIProvider | null;
+  tier: Tier;
+  addOns: AddOns;
+  stats: ContextStats;
+  notes: string; // merged notes (raw + post-meeting + outcome)
+  objective?: string;
+  // Deterministic results: used as drafts for the model and as the fallback
+  deterministic: DeterministicResult;
+  // Long notes: per-chunk notes + deterministic drafts (map step). Omit (or pass one) for a single pass.
+  chunks?: { notes: string; deterministic: DeterministicResult }[];
+  signal?: AbortSignal;
+  onProgress?: (progress: GenerateProgress) => void;
+  // Each step report as soon as the step settles (a cancelled run still has to bill these)
+  onStep?: (step: AIStepReport) => void;
+  // Last say over the router's choice (quotas: refuse → "none", or a smaller model)
+  adjustModel?: (task: "A" | "B" | "C", model: string) => { model: string; reason?: string };
+  // What to do with generated action items that no note line supports (default "flag")
+  grounding?: GroundingMode;
+};
+
+export type DeterministicResult = {
+  normalized: NormalizerJson;
+  outputs: CoreOutputs;
+  // Parsed items with source spans: generated items matching one reuse its fields
+  structuredActionItems?: StructuredActionItem[];
+};
+
+/** Stage updates while the pipeline runs (streamed to the client by /api/generate). */
+export type GenerateProgress =
+  | { stage: "normalized"; normalized: NormalizerJson }
+  | { stage: "core"; outputs: CoreOutputs; structuredActionItems?: StructuredActionItem[] }
+  | { stage: "refining"; model: string };
+
+export type GeneratePipelineResult = {
+  normalized: NormalizerJson;
+  outputs: CoreOutputs; // first pass (Task B, or deterministic)
+  refine: boolean;
+  // Task C result: kept apart from `outputs` so the user can review it before it replaces them.
+  // Only set when the refine pass actually changed something.
+  refinement?: CoreOutputs & { changes: RefineChange[]; model: string; structuredActionItems?: StructuredActionItem[] };
+  engine: "ai" | "deterministic"; // "ai" when Task B produced the outputs (of at least one chunk)
+  // Items behind `outputs.actionItems` when the model wrote them (deterministic ones otherwise)
+  structuredActionItems?: StructuredActionItem[];
+  ungrounded: ActionIssue[]; // generated action items with no supporting note line
+  chunks: number;
+  models: Record<"A" | "B" | "C", string>;
+  steps: AIStepReport[];
+};
+
+export async function runGeneratePipeline(params: GeneratePipelineParams): Promise<GeneratePipelineResult> {
+  const { provider, tier, addOns, stats, notes, deterministic, signal, onProgress } = params;
+
+  const decide = (task: "A" | "B" | "C") => {
+    const routed = getModelForTask(task, tier, addOns);
+    return params.adjustModel ? params.adjustModel(task, routed) : { model: routed };
+  };
+  const decisions = { A: decide("A"), B: decide("B"), C: decide("C") };
+  const models = { A: decisions.A.model, B: decisions.B.model, C: decisions.C.model };
+  const steps: AIStepReport[] = [];
+  const recordStep = (s: AIStepReport) => {
+    steps.push(s);
+    params.onStep?.(s);
+  };
+  const ungrounded: ActionIssue[] = [];
+
+  // Model output only: deterministic items come straight from note lines
+  function ground(out: CoreOutputs) {
+    const res = groundActionItems(out.actionItems, notes, {
+      mode: params.grounding,
+      known: deterministic.structuredActionItems,
+    });
+    ungrounded.push(...res.issues);
+    return { outputs: { ...out, actionItems: res.actionItems }, items: res.items.length ? res.items : undefined };
+  }
+
+  async function step<T>(
+    routerTask: keyof typeof models,
+    prompt: () => TaskPrompt,
+    validate: Validator<T>,
+    chunk?: number
+  ): Promise<T | null> {
+    const task = ROUTER_TASKS[routerTask];
+    const model = models[routerTask];
+
+    if (model === "none") {
+      recordStep({ ...skippedStep(task, model, decisions[routerTask].reason ?? "Not routed for this tier"), chunk });
+      return null;
+    }
+    if (!provider) {
+      recordStep({ ...skippedStep(task, model, "No AI provider configured"), chunk });
+      return null;
+    }
+
+    let res: TaskResult<T>;
+    try {
+      res = await runTask(provider, { task, model, prompt: prompt(), validate, signal });
+    } catch (err) {
+      if (err instanceof TaskAbortedError) recordStep({ ...err.report, chunk });
+      throw err;
+    }
+    recordStep({ ...res.report, chunk });
+    return res.ok ? res.value : null;
+  }
+
+  const chunks = params.chunks && params.chunks.length > 1 ? params.chunks : null;
+  if (chunks) return runChunked(chunks);
+
+  // Task A: structure the notes
+  const aiNormalized = await step(
+    "A",
+    () => renderPrompt("A_NORMALIZE", { mergedNotes: notes, objective: params.objective }),
+    validateNormalizerJson
+  );
+  const normalized = aiNormalized ?? deterministic.normalized;
+  onProgress?.({ stage: "normalized", normalized });
+
+  // Task B: summary + action items, drafted from the deterministic outputs
+  const aiOutputs = await step(
+    "B",
+    () => renderPrompt("B_CORE_OUTPUTS", { mergedNotes: notes, normalized, draft: deterministic.outputs }),
+    validateCoreOutputs
+  );
+  const grounded = aiOutputs ? ground(aiOutputs) : null;
+  const outputs = grounded?.outputs ?? deterministic.outputs;
+  const structuredActionItems = grounded?.items ?? deterministic.structuredActionItems;
+  onProgress?.({ stage: "core", outputs: { ...outputs, email: deterministic.outputs.email }, structuredActionItems });
+
+  // Task C: refine when the router asks for it (sees the final normalizer flags)
+  const refine = shouldRefine({ tier, addOns, stats, normalizerJson: normalized });
+  let refinement: GeneratePipelineResult["refinement"];
+  if (refine) {
+    if (provider && models.C !== "none") onProgress?.({ stage: "refining", model: models.C });
+    const refined = await step(
+      "C",
+      () => renderPrompt("C_REFINE", { mergedNotes: notes, outputs, ambiguityFlags: normalized.ambiguity_flags ?? [] }),
+      validateCoreOutputs
+    );
+    const checked = refined ? ground(refined) : null;
+    const changes = checked ? diffOutputs(outputs, checked.outputs) : [];
+    if (checked && changes.length) {
+      refinement = {
+        summary: checked.outputs.summary,
+        actionItems: checked.outputs.actionItems,
+        structuredActionItems: checked.items,
+        changes,
+        model: steps[steps.length - 1].model,
+      };
+    }
+  }
+
+  return {
+    normalized,
+    outputs: { ...outputs, email: deterministic.outputs.email },
+    refine,
+    refinement,
+    engine: aiOutputs ? "ai" : "deterministic",
+    structuredActionItems,
+    ungrounded,
+    chunks: 1,
+    models,
+    steps,
+  };
+
+  /**
+   * Map: A then B per chunk (each falling back to that chunk's deterministic draft).
+   * Reduce: union of normalizer lists, section-wise summary merge, de-duplicated actions.
+   * When no chunk got AI output, the whole-notes deterministic result is used as is.
+   * No refine: the merged notes are what made chunking necessary in the first place.
+   */
+  async function runChunked(list: { notes: string; deterministic: DeterministicResult }[]) {
+    const chunkNormalized: (NormalizerJson | null)[] = [];
+    for (let i = 0; i < list.length; i++) {
+      chunkNormalized.push(
+        await step(
+          "A",
+          () => renderPrompt("A_NORMALIZE", { mergedNotes: list[i].notes, objective: params.objective }),
+          validateNormalizerJson,
+          i
+        )
+      );
+    }
+    const anyNormalized = chunkNormalized.some(Boolean);
+    const normalized = anyNormalized
+      ? mergeNormalizerJson(chunkNormalized.map((n, i) => n ?? list[i].deterministic.normalized))
+      : deterministic.normalized;
+    onProgress?.({ stage: "normalized", normalized });
+
+    const chunkOutputs: (CoreOutputs | null)[] = [];
+    for (let i = 0; i < list.length; i++) {
+      chunkOutputs.push(
+        await step(
+          "B",
+          () =>
+            renderPrompt("B_CORE_OUTPUTS", {
+              mergedNotes: list[i].notes,
+              normalized: chunkNormalized[i] ?? list[i].deterministic.normalized,
+              draft: list[i].deterministic.outputs,
+            }),
+          validateCoreOutputs,
+          i
+        )
+      );
+    }
+    const anyOutputs = chunkOutputs.some(Boolean);
+    // Grounded against the whole notes, after the merge
+    const grounded = anyOutputs
+      ? ground(mergeCoreOutputs(chunkOutputs.map((o, i) => o ?? list[i].deterministic.outputs)))
+      : null;
+    const outputs = grounded?.outputs ?? deterministic.outputs;
+    const structuredActionItems = grounded?.items ?? deterministic.structuredActionItems;
+    onProgress?.({ stage: "core", outputs: { ...outputs, email: deterministic.outputs.email }, structuredActionItems });
+
+    const refine = shouldRefine({ tier, addOns, stats, normalizerJson: normalized });
+    if (refine && models.C !== "none") {
+      recordStep(skippedStep(ROUTER_TASKS.C, models.C, `Notes split into ${list.length} chunks; refine needs a single pass`));
+    }
+
+    return {
+      normalized,
+      outputs: { ...outputs, email: deterministic.outputs.email },
+      refine,
+      engine: anyOutputs ? ("ai" as const) : ("deterministic" as const),
+      structuredActionItems,
+      ungrounded,
+      chunks: list.length,
+      models,
+      steps,
+    };
+  }
+}
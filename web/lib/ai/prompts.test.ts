@@ -0,0 +1,89 @@
+// web/lib/ai/prompts.test.ts
+// Golden files for the prompt registry: every (task, version) rendered from the fixed variables
+// below must match lib/ai/__golden__/<task>.<version>.txt byte for byte, so a shipped prompt
+// can't change by accident. A new version needs its golden file:
+//
+//   RECAPKIT_UPDATE_GOLDEN=1 npm test
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import type { AITask } from "@/lib/ai/tasks";
+import { listPromptVersions, renderPrompt, type PromptVariables } from "@/lib/ai/prompts";
+
+const GOLDEN_DIR = path.join(__dirname, "__golden__");
+
+const NOTES = lines(
+  "- Q3 launch review",
+  "- Decision: ship the beta on 3/14",
+  "- Maria to update the pricing page by Friday",
+  "- Open question: do we need legal sign-off?"
+);
+
+const DRAFT = {
+  summary: "Summary\n1. Q3 launch review\n\nDecisions\n1. Ship the beta on 3/14",
+  actionItems: "Action Items\n1. Maria: update the pricing page (due Friday)",
+};
+
+const VARIABLES: PromptVariables = {
+  A_NORMALIZE: { mergedNotes: NOTES, objective: "Agree on the beta launch" },
+  B_CORE_OUTPUTS: {
+    mergedNotes: NOTES,
+    normalized: {
+      meeting_objective: "Agree on the beta launch",
+      decisions: ["Ship the beta on 3/14"],
+      action_item_candidates: ["Maria to update the pricing page by Friday"],
+      ambiguity_flags: ["Legal sign-off owner unclear"],
+    },
+    draft: DRAFT,
+  },
+  C_REFINE: { mergedNotes: NOTES, outputs: DRAFT, ambiguityFlags: ["Legal sign-off owner unclear"] },
+  D_TRANSCRIPT_POLISH: {
+    transcript: "Maria: um so I'll, I'll update the pricing page by Friday.\nLeo: Great, thanks.",
+    draft: "- Maria: I'll update the pricing page by Friday.\n- Leo: Great, thanks.",
+  },
+  E_FOLLOW_UP_EMAIL: {
+    highlights: [
+      { text: "Beta ships on 3/14", tag: "Decision" },
+      { text: "Maria updates the pricing page by Friday", tag: "None" },
+    ],
+    emailType: "Recap",
+    tone: "Friendly",
+    followUpType: "Next steps",
+    focusPrompt: "Keep it short",
+    emailPrompt: "Mention the legal question",
+    meetingResult: "Won",
+    meetingOutcome: "Beta approved",
+    draft: "Subject: Beta launch recap\n\nHi all,\n\nThanks for the time today.",
+  },
+};
+
+const TASKS = Object.keys(VARIABLES) as AITask[];
+
+function lines(...parts: string[]): string {
+  return parts.join("\n");
+}
+
+function goldenText(task: AITask, version: string): string {
+  const rendered = renderPrompt(task, VARIABLES[task], version);
+  return `=== system ===\n${rendered.system}\n=== user ===\n${rendered.prompt}\n`;
+}
+
+for (const task of TASKS) {
+  for (const version of listPromptVersions(task)) {
+    test(`${task}@${version} matches its golden file`, () => {
+      const file = path.join(GOLDEN_DIR, `${task}.${version}.txt`);
+      const actual = goldenText(task, version);
+
+      if (process.env.RECAPKIT_UPDATE_GOLDEN) {
+        mkdirSync(GOLDEN_DIR, { recursive: true });
+        writeFileSync(file, actual, "utf8");
+        return;
+      }
+
+      assert.ok(existsSync(file), `Missing ${path.relative(process.cwd(), file)} (run with RECAPKIT_UPDATE_GOLDEN=1)`);
+      assert.equal(actual, readFileSync(file, "utf8"));
+    });
+  }
+}
@@ -0,0 +1,192 @@
+// web/lib/ai/prompts.ts
+// Versioned prompt registry: one template per (AITask, version), rendered from typed
+// variables. Every prompt asks for one JSON object matching the task contract in
+// lib/ai/tasks.ts. Change a prompt by adding a version, not by editing a shipped one:
+// step reports and the usage ledger record which version produced each output.
+
+import type { AITask, CoreOutputs, NormalizerJson } from "@/lib/ai/tasks";
+
+/** Typed variables per task. */
+export type PromptVariables = {
+  A_NORMALIZE: { mergedNotes: string; objective?: string };
+  B_CORE_OUTPUTS: { mergedNotes: string; normalized: NormalizerJson; draft: CoreOutputs };
+  C_REFINE: { mergedNotes: string; outputs: CoreOutputs; ambiguityFlags: string[] };
+  D_TRANSCRIPT_POLISH: { transcript: string; draft: string };
+  E_FOLLOW_UP_EMAIL: {
+    highlights: { text: string; tag?: string }[];
+    emailType: string;
+    tone: string;
+    followUpType?: string;
+    focusPrompt?: string;
+    emailPrompt?: string;
+    meetingResult?: string;
+    meetingOutcome?: string;
+    draft: string; // template email: structure/subject reference and the fallback
+  };
+};
+
+export type PromptTemplate<T extends AITask> = {
+  system: (v: PromptVariables[T]) => string;
+  user: (v: PromptVariables[T]) => string;
+};
+
+export type TaskPrompt = {
+  task: AITask;
+  version: string;
+  system: string;
+  prompt: string;
+  // Variables the prompt was rendered from (the mock provider answers from these)
+  input: Record<string, unknown>;
+};
+
+const JSON_ONLY = "Respond with a single JSON object and nothing else.";
+
+const lines = (...parts: string[]) => parts.join("\n");
+
+/* -------------------- templates -------------------- */
+
+const PROMPTS: { [T in AITask]: Record<string, PromptTemplate<T>> } = {
+  A_NORMALIZE: {
+    v1: {
+      system: () =>
+        lines(
+          "You structure raw meeting notes for a recap tool.",
+          "Return keys: meeting_objective (string), topics, decisions, action_item_candidates, dates_mentioned,",
+          "attendees, blockers_risks, open_questions, ambiguity_flags (all arrays of short strings).",
+          "Only use facts present in the notes. Put anything unclear in ambiguity_flags.",
+          JSON_ONLY
+        ),
+      user: (v) => lines(...(v.objective ? [`Stated objective: ${v.objective}`] : []), "Notes:", v.mergedNotes),
+    },
+  },
+
+  B_CORE_OUTPUTS: {
+    v1: {
+      system: () =>
+        lines(
+          "You write meeting recaps.",
+          "Return keys: summary (string), actionItems (string).",
+          "Keep the section headings and numbered layout of the draft; improve wording, fill gaps from the notes,",
+          "and never invent owners, dates or decisions.",
+          JSON_ONLY
+        ),
+      user: (v) =>
+        lines(
+          "Notes:",
+          v.mergedNotes,
+          "",
+          "Structured notes (JSON):",
+          JSON.stringify(v.normalized),
+          "",
+          "Draft summary:",
+          v.draft.summary,
+          "",
+          "Draft action items:",
+          v.draft.actionItems
+        ),
+    },
+  },
+
+  C_REFINE: {
+    v1: {
+      system: () =>
+        lines(
+          "You review a meeting recap against the original notes.",
+          "Return keys: summary (string), actionItems (string) - the corrected recap in the same layout.",
+          "Keep section headings unchanged so edits can be reviewed section by section.",
+          "Fix omissions, wrong owners or dates, and resolve ambiguities only when the notes support it.",
+          JSON_ONLY
+        ),
+      user: (v) =>
+        lines(
+          "Notes:",
+          v.mergedNotes,
+          "",
+          v.ambiguityFlags.length ? `Known ambiguities:\n- ${v.ambiguityFlags.join("\n- ")}\n` : "",
+          "Current summary:",
+          v.outputs.summary,
+          "",
+          "Current action items:",
+          v.outputs.actionItems
+        ),
+    },
+  },
+
+  D_TRANSCRIPT_POLISH: {
+    v1: {
+      system: () =>
+        lines(
+          "You turn a meeting transcript into clean meeting notes.",
+          'Return key: notes (string) - one "- Speaker: text" bullet per speaker turn, in order.',
+          "Remove filler, false starts and small talk; fix obvious transcription errors; keep every",
+          "commitment, name, number and date exactly as said. Do not summarize away decisions or action items.",
+          JSON_ONLY
+        ),
+      user: (v) => lines("Transcript:", v.transcript, "", "Mechanically cleaned draft:", v.draft),
+    },
+  },
+
+  E_FOLLOW_UP_EMAIL: {
+    v1: {
+      system: (v) =>
+        lines(
+          "You write follow-up emails after meetings.",
+          'Return key: email (string) - a complete email starting with a "Subject:" line.',
+          `Email type: ${v.emailType}. Tone: ${v.tone}.`,
+          "Cover every highlight in natural prose or a short list; do not invent commitments, names or dates.",
+          "Follow the user's email instructions when given.",
+          JSON_ONLY
+        ),
+      user: (v) => {
+        const context = [
+          v.followUpType ? `Follow-up type: ${v.followUpType}` : "",
+          v.meetingResult && v.meetingResult !== "Pending" ? `Meeting result: ${v.meetingResult}` : "",
+          v.meetingOutcome ? `Meeting outcome: ${v.meetingOutcome}` : "",
+          v.focusPrompt ? `Focus: ${v.focusPrompt}` : "",
+        ].filter(Boolean);
+
+        return lines(
+          ...(context.length ? [...context, ""] : []),
+          "Highlights:",
+          ...v.highlights.map((h) => `- ${h.tag && h.tag !== "None" ? `[${h.tag}] ` : ""}${h.text}`),
+          "",
+          v.emailPrompt ? `Email instructions: ${v.emailPrompt}\n` : "",
+          "Template draft (for reference):",
+          v.draft
+        );
+      },
+    },
+  },
+};
+
+/** Version each task renders by default. */
+export const ACTIVE_PROMPT_VERSIONS: Record<AITask, string> = {
+  A_NORMALIZE: "v1",
+  B_CORE_OUTPUTS: "v1",
+  C_REFINE: "v1",
+  D_TRANSCRIPT_POLISH: "v1",
+  E_FOLLOW_UP_EMAIL: "v1",
+};
+
+/* -------------------- rendering -------------------- */
+
+export function listPromptVersions(task: AITask): string[] {
+  return Object.keys(PROMPTS[task]);
+}
+
+export function renderPrompt<T extends AITask>(
+  task: T,
+  vars: PromptVariables[T],
+  version: string = ACTIVE_PROMPT_VERSIONS[task]
+): TaskPrompt {
+  const template = (PROMPTS[task] as Record<string, PromptTemplate<T>>)[version];
+  if (!template) throw new Error(`Unknown prompt version ${task}@${version}`);
+
+  return {
+    task,
+    version,
+    system: template.system(vars),
+    prompt: template.user(vars),
+    input: vars as Record<string, unknown>,
+  };
+}
@@ -0,0 +1,46 @@
+// web/lib/ai/provider.ts
+// Provider interface for executing AI tasks (A–E). The router picks a model;
+// a provider turns (model, prompt) into text. See lib/ai/execute.ts for selection.
+
+import type { AITask } from "@/lib/ai/tasks";
+import type { RouterTask } from "@/lib/ai/router";
+
+export type AIRequest = {
+  task: AITask;
+  model: string;
+  system: string;
+  prompt: string;
+  // Structured variables the prompt was rendered from (the mock provider answers from these)
+  input: Record<string, unknown>;
+  json?: boolean; // ask for a JSON object response
+  signal?: AbortSignal;
+};
+
+export type AIResponse = {
+  text: string;
+  model: string; // model that actually answered (providers may echo a resolved id)
+  usage?: { inputTokens?: number; outputTokens?: number };
+};
+
+export interface AIProvider {
+  name: string;
+  complete(req: AIRequest): Promise<AIResponse>;
+}
+
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "AIProviderError";
+  }
+}
+
+export const ROUTER_TASKS: Record<RouterTask, AITask> = {
+  A: "A_NORMALIZE",
+  B: "B_CORE_OUTPUTS",
+  C: "C_REFINE",
+  D: "D_TRANSCRIPT_POLISH",
+  E: "E_FOLLOW_UP_EMAIL",
+};
@@ -0,0 +1,42 @@
+// web/lib/ai/providers/mock.ts
+// Deterministic provider for tests and offline dev (RECAPKIT_AI_PROVIDER=mock).
+// Answers from the request's structured input, so output only depends on the notes.
+
+import type { AITask } from "@/lib/ai/tasks";
+import type { AIProvider, AIRequest, AIResponse } from "@/lib/ai/provider";
+import { normalizeNotes, parseBulletTree } from "@/lib/recap";
+
+export type MockResponder = string | ((req: AIRequest) => string);
+
+function asRecord(x: unknown): Record<string, unknown> {
+  return x && typeof x === "object" ? (x as Record<string, unknown>) : {};
+}
+
+const DEFAULT_RESPONDERS: Record<AITask, (req: AIRequest) => unknown> = {
+  A_NORMALIZE: (req) => normalizeNotes(parseBulletTree(String(req.input.mergedNotes ?? ""))),
+  // Core outputs / refine / email: hand back the deterministic draft the prompt carried
+  B_CORE_OUTPUTS: (req) => asRecord(req.input.draft),
+  C_REFINE: (req) => asRecord(req.input.outputs),
+  D_TRANSCRIPT_POLISH: (req) => ({ notes: String(req.input.draft ?? "") }),
+  E_FOLLOW_UP_EMAIL: (req) => ({ email: String(req.input.draft ?? "") }),
+};
+
+/**
+ * `responses` overrides the default answer per task (fixed text or a function of the request),
+ * ex: `createMockProvider({ B_CORE_OUTPUTS: "not json" })` to exercise the fallback path.
+ */
+export function createMockProvider(responses: Partial<Record<AITask, MockResponder>> = {}): AIProvider {
+  async function complete(req: AIRequest): Promise<AIResponse> {
+    const custom = responses[req.task];
+    const text =
+      custom === undefined
+        ? JSON.stringify(DEFAULT_RESPONDERS[req.task](req))
+        : typeof custom === "function"
+          ? custom(req)
+          : custom;
+
+    return { text, model: `mock:${req.model}` };
+  }
+
+  return { name: "mock", complete };
+}
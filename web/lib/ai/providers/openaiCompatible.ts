@@ -0,0 +1,72 @@
+// web/lib/ai/providers/openaiCompatible.ts
+// Chat Completions client for OpenAI and compatible servers (vLLM, Ollama, LM Studio, ...).
+
+import { AIProviderError, type AIProvider, type AIRequest, type AIResponse } from "@/lib/ai/provider";
+
+export type OpenAICompatibleOptions = {
+  baseUrl?: string; // default https://api.openai.com/v1
+  apiKey?: string; // optional for local servers
+  timeoutMs?: number; // default 60s
+};
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+export function createOpenAICompatibleProvider(opts: OpenAICompatibleOptions = {}): AIProvider {
+  const baseUrl = (opts.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  async function complete(req: AIRequest): Promise<AIResponse> {
+    // Caller cancellation and our own timeout both abort the fetch
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const signal = req.signal ? AbortSignal.any([req.signal, timeout]) : timeout;
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (opts.apiKey) headers.Authorization = `Bearer ${opts.apiKey}`;
+
+    let res: Response;
+    try {
+      res = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers,
+        signal,
+        body: JSON.stringify({
+          model: req.model,
+          messages: [
+            { role: "system", content: req.system },
+            { role: "user", content: req.prompt },
+          ],
+          ...(req.json ? { response_format: { type: "json_object" } } : {}),
+        }),
+      });
+    } catch (err) {
+      const reason = timeout.aborted ? `timed out after ${timeoutMs}ms` : String((err as Error)?.message ?? err);
+      throw new AIProviderError(`Request to ${baseUrl} failed: ${reason}`);
+    }
+
+    if (!res.ok) {
+      const detail = (await res.text().catch(() => "")).slice(0, 300);
+      throw new AIProviderError(`Provider returned ${res.status}${detail ? `: ${detail}` : ""}`, res.status);
+    }
+
+    const data = (await res.json().catch(() => null)) as Record<string, unknown> | null;
+    const choices = Array.isArray(data?.choices) ? data.choices : [];
+    const first = choices[0] && typeof choices[0] === "object" ? (choices[0] as Record<string, unknown>) : {};
+    const message = first.message && typeof first.message === "object" ? (first.message as Record<string, unknown>) : {};
+    const text = typeof message.content === "string" ? message.content : "";
+    if (!text) throw new AIProviderError("Provider returned an empty completion");
+
+    const usage = data?.usage && typeof data.usage === "object" ? (data.usage as Record<string, unknown>) : {};
+
+    return {
+      text,
+      model: typeof data?.model === "string" ? data.model : req.model,
+      usage: {
+        inputTokens: typeof usage.prompt_tokens === "number" ? usage.prompt_tokens : undefined,
+        outputTokens: typeof usage.completion_tokens === "number" ? usage.completion_tokens : undefined,
+      },
+    };
+  }
+
+  return { name: "openai", complete };
+}
@@ -0,0 +1,179 @@
+// web/lib/ai/refine.ts
+// Task C review support: diff the first-pass outputs against the refined ones so the
+// user can see what changed (per section) before accepting. Client-safe (no server imports).
+
+import type { CoreOutputs } from "@/lib/ai/tasks";
+import type { StructuredActionItem } from "@/lib/recap";
+
+export type RefineChangeKind = "added" | "removed" | "reworded";
+
+export type RefineChange = {
+  output: "summary" | "actionItems";
+  section: string; // heading the item sits under ("Key Decisions"), "" when there is none
+  kind: RefineChangeKind;
+  before?: string; // removed / reworded
+  after?: string; // added / reworded
+};
+
+/** A refined version waiting for the user's accept/reject. */
+export type Refinement = {
+  summary: string;
+  actionItems: string;
+  changes: RefineChange[];
+  // Items behind the refined actionItems; accepting replaces the first-pass ones with these
+  structuredActionItems?: StructuredActionItem[];
+  model?: string;
+  createdAt: number;
+};
+
+export type SectionItems = Map<string, string[]>;
+
+const HEADING_UNDERLINE_RE = /^\s*[-=]{3,}\s*$/;
+const MARKDOWN_HEADING_RE = /^\s*#{1,6}\s+(.*)$/;
+const NUMBERED_RE = /^\s*\d+[.)]\s+/;
+
+/**
+ * Split rendered output into items per section. Headings are markdown "#" lines or a line
+ * underlined with dashes; numbered items keep their indented detail lines ("   - Owner: ...").
+ */
+export function parseOutputSections(text: string): SectionItems {
+  const lines = text.split("\n");
+  const out: SectionItems = new Map();
+  let section = "";
+  let block: string[] | null = null;
+
+  const push = (item: string) => {
+    const list = out.get(section) ?? [];
+    list.push(item);
+    out.set(section, list);
+  };
+  const flush = () => {
+    if (block) push(block.join("\n"));
+    block = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim() || HEADING_UNDERLINE_RE.test(line)) {
+      if (!line.trim()) flush();
+      continue;
+    }
+
+    const md = line.match(MARKDOWN_HEADING_RE);
+    if (md || HEADING_UNDERLINE_RE.test(lines[i + 1] ?? "")) {
+      flush();
+      section = (md ? md[1] : line).trim();
+      continue;
+    }
+
+    if (NUMBERED_RE.test(line)) {
+      flush();
+      block = [line.trim()];
+    } else if (block && /^\s+/.test(line)) {
+      block.push(line.trim());
+    } else {
+      flush();
+      push(line.trim());
+    }
+  }
+  flush();
+
+  return out;
+}
+
+// Renumbering and bullet style are not changes
+export function outputItemKey(item: string): string {
+  return item
+    .replace(NUMBERED_RE, "")
+    .replace(/^\s*[-*•]\s+/, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function similarity(a: string, b: string): number {
+  const ta = new Set(outputItemKey(a).match(/[\p{L}\p{N}]+/gu) ?? []);
+  const tb = new Set(outputItemKey(b).match(/[\p{L}\p{N}]+/gu) ?? []);
+  if (!ta.size || !tb.size) return 0;
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  return shared / (ta.size + tb.size - shared);
+}
+
+function diffItems(output: RefineChange["output"], section: string, before: string[], after: string[]): RefineChange[] {
+  const afterKeys = new Set(after.map(outputItemKey));
+  const beforeKeys = new Set(before.map(outputItemKey));
+  const removed = before.filter((b) => !afterKeys.has(outputItemKey(b)));
+  const added = after.filter((a) => !beforeKeys.has(outputItemKey(a)));
+
+  const changes: RefineChange[] = [];
+
+  // Pair removed/added items that are mostly the same words as rewordings (best match first)
+  for (const b of removed) {
+    let best = -1;
+    let bestScore = 0.5;
+    added.forEach((a, idx) => {
+      const score = similarity(a, b);
+      if (score >= bestScore) {
+        best = idx;
+        bestScore = score;
+      }
+    });
+
+    if (best >= 0) {
+      changes.push({ output, section, kind: "reworded", before: b, after: added[best] });
+      added.splice(best, 1);
+    } else {
+      changes.push({ output, section, kind: "removed", before: b });
+    }
+  }
+
+  for (const a of added) changes.push({ output, section, kind: "added", after: a });
+
+  return changes;
+}
+
+function diffOutput(output: RefineChange["output"], before: string, after: string): RefineChange[] {
+  const a = parseOutputSections(before);
+  const b = parseOutputSections(after);
+  const sections = Array.from(new Set([...a.keys(), ...b.keys()]));
+  return sections.flatMap((s) => diffItems(output, s, a.get(s) ?? [], b.get(s) ?? []));
+}
+
+export function diffOutputs(before: CoreOutputs, after: CoreOutputs): RefineChange[] {
+  return [
+    ...diffOutput("summary", before.summary, after.summary),
+    ...diffOutput("actionItems", before.actionItems, after.actionItems),
+  ];
+}
+
+/* -------------------- back-compat / API input -------------------- */
+
+const CHANGE_KINDS: RefineChangeKind[] = ["added", "removed", "reworded"];
+
+export function normalizeRefinement(raw: unknown): Refinement | undefined {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : null;
+  if (!r || typeof r.summary !== "string" || typeof r.actionItems !== "string") return undefined;
+
+  const changes = (Array.isArray(r.changes) ? r.changes : [])
+    .map((x): RefineChange | null => {
+      const c = x && typeof x === "object" ? (x as Record<string, unknown>) : null;
+      if (!c || !CHANGE_KINDS.includes(c.kind as RefineChangeKind)) return null;
+      return {
+        output: c.output === "actionItems" ? "actionItems" : "summary",
+        section: String(c.section ?? ""),
+        kind: c.kind as RefineChangeKind,
+        before: typeof c.before === "string" ? c.before : undefined,
+        after: typeof c.after === "string" ? c.after : undefined,
+      };
+    })
+    .filter((c): c is RefineChange => Boolean(c));
+
+  return {
+    summary: r.summary,
+    actionItems: r.actionItems,
+    changes,
+    model: typeof r.model === "string" ? r.model : undefined,
+    createdAt: typeof r.createdAt === "number" ? r.createdAt : Date.now(),
+  };
+}
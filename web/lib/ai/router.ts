@@ -1,9 +1,12 @@
 // web/lib/ai/router.ts
 // Canonical routing logic for RecapKit AI tasks.
-// This is spec-first and should remain stable.
+// This is spec-first and should remain stable. The table itself is data: lib/ai/routing.json
+// (overridable per environment, see lib/ai/routingConfig.ts).
 
 import type { Tier, AddOns } from "@/lib/types/tier";
-import type { ContextStats, NormalizerJson } from "@/lib/ai/tasks";
+import type { AITask, ContextStats, NormalizerJson } from "@/lib/ai/tasks";
+import { ROUTER_TASKS } from "@/lib/ai/provider";
+import { getRoutingConfig, ROUTING_TASKS, type RefineMode, type RoutingConfig, type RoutingSource } from "@/lib/ai/routingConfig";
 
 export type RouterTask = "A" | "B" | "C" | "D" | "E";
 
@@ -14,50 +17,16 @@ function hasEnhancedLogic(addOns: AddOns): boolean {
 export function getModelForTask(
   task: RouterTask,
   tier: Tier,
-  addOns: AddOns,
-  _stats?: ContextStats
+  addOns: AddOns
 ): string {
-  // If you want, we can later swap these strings to real provider model IDs.
-  // For now they are your "routing decision outputs".
-
-  // Free
-  if (tier === "free") {
-    if (task === "A") return "gpt-4.1-nano";
-    if (task === "B") return "gpt-4.1-mini";
-    if (task === "C") return "none";
-    if (task === "D") return "none";
-    if (task === "E") return "none";
-  }
-
-  // Basic
-  if (tier === "basic") {
-    if (task === "A") return "gpt-4.1-mini";
-    if (task === "B") return "gpt-5-mini";
-    if (task === "C") return "none";
-    if (task === "D") return "gpt-4.1-mini";
-    if (task === "E") return "gpt-5-mini";
-  }
-
-  // Premium
-  if (tier === "premium") {
-    if (task === "A") return "gpt-4.1-mini";
-    if (task === "B") return "gpt-5-mini";
-    if (task === "C") return "gpt-5.2";
-    if (task === "D") return "gpt-5-mini";
-    if (task === "E") return "gpt-5-mini";
-  }
-
-  // Pro
-  if (tier === "pro") {
-    if (task === "A") return "gpt-4.1-mini";
-    if (task === "B") return "gpt-5-mini";
-    if (task === "C") return "gpt-5.2";
-    if (task === "D") return "gpt-5.2";
-    if (task === "E") return "gpt-5.2";
-  }
+  // Model ids as the provider sees them, or "none" (task not routed for this tier)
+  return getRoutingConfig().config.tiers[tier][task];
+}
 
-  // Fallback safety
-  return "gpt-4.1-nano";
+// Refine mode after add-ons: Enhanced Logic forces refine behavior on Basic/Premium
+function refineMode(config: RoutingConfig, tier: Tier, addOns: AddOns): RefineMode {
+  if (config.refine.enhancedLogicForcesRefine && hasEnhancedLogic(addOns)) return "always";
+  return config.refine.tiers[tier];
 }
 
 export function shouldRefine(params: {
@@ -67,24 +36,54 @@ export function shouldRefine(params: {
   normalizerJson?: NormalizerJson;
 }): boolean {
   const { tier, addOns, stats, normalizerJson } = params;
+  const { config } = getRoutingConfig();
+
+  const mode = refineMode(config, tier, addOns);
+  if (mode !== "auto") return mode === "always";
 
-  // Pro always refines where applicable
-  if (tier === "pro") return true;
+  // "auto" (Premium by default) refines selectively
+  const ambiguityCount = normalizerJson?.ambiguity_flags?.length ?? 0;
+  const { thresholds } = config.refine;
 
-  // Enhanced Logic add-on forces refine behavior on Basic/Premium
-  if (hasEnhancedLogic(addOns)) return true;
+  if (stats.mergedNotesChars > thresholds.mergedNotesChars) return true;
+  if (ambiguityCount >= thresholds.ambiguityFlags) return true;
 
-  // Premium can refine selectively
-  if (tier === "premium") {
-    const ambiguityCount = normalizerJson?.ambiguity_flags?.length ?? 0;
+  return false;
+}
 
-    // Simple thresholds (tune later)
-    if (stats.mergedNotesChars > 9000) return true;
-    if (ambiguityCount >= 3) return true;
+/* -------------------- resolved routing report -------------------- */
 
-    return false;
+export type RoutingReport = {
+  tier: Tier;
+  addOns: AddOns;
+  sources: RoutingSource[]; // which layers the config came from (defaults, override file, env)
+  tasks: Record<RouterTask, { task: AITask; model: string }>;
+  refine: {
+    mode: RefineMode;
+    forcedByEnhancedLogic: boolean;
+    thresholds: RoutingConfig["refine"]["thresholds"];
+  };
+};
+
+/** What the router will do for a tier + add-ons, for the debug panel and /api/routing. */
+export function resolveRouting(tier: Tier, addOns: AddOns): RoutingReport {
+  const { config, sources } = getRoutingConfig();
+  const mode = refineMode(config, tier, addOns);
+
+  const tasks = {} as RoutingReport["tasks"];
+  for (const task of ROUTING_TASKS) {
+    tasks[task] = { task: ROUTER_TASKS[task], model: getModelForTask(task, tier, addOns) };
   }
 
-  // Basic + Free: no refine by default
-  return false;
-}
\ No newline at end of file
+  return {
+    tier,
+    addOns,
+    sources,
+    tasks,
+    refine: {
+      mode,
+      forcedByEnhancedLogic: mode !== config.refine.tiers[tier],
+      thresholds: config.refine.thresholds,
+    },
+  };
+}
@@ -0,0 +1,186 @@
+// web/lib/ai/routingConfig.ts
+// Routing table + refine thresholds as data (lib/ai/routing.json), with per-environment overrides.
+// Loaded once per process and validated: every tier/task pair must map to a known model or "none".
+// `downgrades` (model -> one step cheaper) is what lib/usage/quotas.ts switches to near the quota.
+// Server-only (reads the override file from disk).
+
+import { readFileSync } from "fs";
+import type { Tier } from "@/lib/types/tier";
+import type { RouterTask } from "@/lib/ai/router";
+import defaults from "@/lib/ai/routing.json";
+
+export type RefineMode = "never" | "auto" | "always";
+
+export type RoutingConfig = {
+  models: string[]; // known model ids; tier tables may only use these (or "none")
+  tiers: Record<Tier, Record<RouterTask, string>>;
+  downgrades: Record<string, string>; // model -> cheaper model used when the token quota runs low
+  refine: {
+    tiers: Record<Tier, RefineMode>; // "auto" = refine when a threshold below is hit
+    enhancedLogicForcesRefine: boolean;
+    thresholds: {
+      mergedNotesChars: number; // refine when merged notes are longer than this
+      ambiguityFlags: number; // ...or Task A raised at least this many ambiguity flags
+    };
+  };
+};
+
+export type RoutingSource = "default" | "file" | "env";
+
+export const ROUTING_TIERS: Tier[] = ["free", "basic", "premium", "pro"];
+export const ROUTING_TASKS: RouterTask[] = ["A", "B", "C", "D", "E"];
+const REFINE_MODES: RefineMode[] = ["never", "auto", "always"];
+
+export class RoutingConfigError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid AI routing config:\n- ${errors.join("\n- ")}`);
+    this.name = "RoutingConfigError";
+  }
+}
+
+/* -------------------- overrides -------------------- */
+
+function asObject(x: unknown): Record<string, unknown> {
+  return x && typeof x === "object" && !Array.isArray(x) ? (x as Record<string, unknown>) : {};
+}
+
+/**
+ * Layer a partial config over a full one: tier tables merge per task, downgrades per model,
+ * refine merges per field, and `models` adds to the known list (so an override can route to a
+ * local model).
+ */
+function mergeRouting(base: unknown, override: unknown): unknown {
+  const b = asObject(base);
+  const o = asObject(override);
+
+  const tiers: Record<string, unknown> = { ...asObject(b.tiers) };
+  for (const [tier, table] of Object.entries(asObject(o.tiers))) {
+    tiers[tier] = { ...asObject(tiers[tier]), ...asObject(table) };
+  }
+
+  const downgrades = { ...asObject(b.downgrades), ...asObject(o.downgrades) };
+
+  const bRefine = asObject(b.refine);
+  const oRefine = asObject(o.refine);
+  const refine = {
+    ...bRefine,
+    ...oRefine,
+    tiers: { ...asObject(bRefine.tiers), ...asObject(oRefine.tiers) },
+    thresholds: { ...asObject(bRefine.thresholds), ...asObject(oRefine.thresholds) },
+  };
+
+  const models = [...(Array.isArray(b.models) ? b.models : []), ...(Array.isArray(o.models) ? o.models : [])];
+
+  return { models: Array.from(new Set(models)), tiers, downgrades, refine };
+}
+
+function parseOverride(text: string, label: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new RoutingConfigError([`${label} is not valid JSON (${err instanceof Error ? err.message : String(err)})`]);
+  }
+}
+
+/* -------------------- validation -------------------- */
+
+/** Check a (merged) config; returns the typed config or every problem found. */
+export function validateRoutingConfig(raw: unknown): { ok: true; config: RoutingConfig } | { ok: false; errors: string[] } {
+  const r = asObject(raw);
+  const errors: string[] = [];
+
+  const models = Array.isArray(r.models) ? r.models.filter((m): m is string => typeof m === "string" && Boolean(m.trim())) : [];
+  if (!models.length) errors.push("models: expected a non-empty list of model ids");
+
+  const tiers = asObject(r.tiers);
+  for (const tier of ROUTING_TIERS) {
+    const table = asObject(tiers[tier]);
+    for (const task of ROUTING_TASKS) {
+      const model = table[task];
+      if (typeof model !== "string" || !model) {
+        errors.push(`tiers.${tier}.${task}: missing (use a model id or "none")`);
+      } else if (model !== "none" && !models.includes(model)) {
+        errors.push(`tiers.${tier}.${task}: unknown model "${model}" (add it to models)`);
+      }
+    }
+  }
+  for (const tier of Object.keys(tiers)) {
+    if (!ROUTING_TIERS.includes(tier as Tier)) errors.push(`tiers.${tier}: unknown tier`);
+  }
+
+  // Optional: no entry means the model is kept as is
+  const downgrades = asObject(r.downgrades);
+  for (const [from, to] of Object.entries(downgrades)) {
+    if (!models.includes(from)) errors.push(`downgrades.${from}: unknown model (add it to models)`);
+    if (typeof to !== "string" || !models.includes(to)) {
+      errors.push(`downgrades.${from}: expected a known model id, got ${JSON.stringify(to)}`);
+    }
+  }
+
+  const refine = asObject(r.refine);
+  const refineTiers = asObject(refine.tiers);
+  for (const tier of ROUTING_TIERS) {
+    if (!REFINE_MODES.includes(refineTiers[tier] as RefineMode)) {
+      errors.push(`refine.tiers.${tier}: expected one of ${REFINE_MODES.join(", ")}`);
+    }
+  }
+  if (typeof refine.enhancedLogicForcesRefine !== "boolean") {
+    errors.push("refine.enhancedLogicForcesRefine: expected true or false");
+  }
+  const thresholds = asObject(refine.thresholds);
+  for (const key of ["mergedNotesChars", "ambiguityFlags"]) {
+    const n = thresholds[key];
+    if (typeof n !== "number" || !Number.isFinite(n) || n < 0) {
+      errors.push(`refine.thresholds.${key}: expected a number ≥ 0`);
+    }
+  }
+
+  if (errors.length) return { ok: false, errors };
+  return { ok: true, config: { models, tiers, downgrades, refine } as RoutingConfig };
+}
+
+/* -------------------- loading -------------------- */
+
+/**
+ * Defaults from lib/ai/routing.json, then (in order) overrides from the environment.
+ *
+ * Env:
+ * - RECAPKIT_ROUTING_FILE: path to a JSON file with a partial config (ex: config/routing.staging.json)
+ * - RECAPKIT_ROUTING: inline JSON with a partial config (ex: {"tiers":{"basic":{"C":"gpt-5-mini"}}})
+ *
+ * Throws RoutingConfigError when the result is invalid.
+ */
+export function loadRoutingConfig(env: NodeJS.ProcessEnv = process.env): { config: RoutingConfig; sources: RoutingSource[] } {
+  let raw: unknown = defaults;
+  const sources: RoutingSource[] = ["default"];
+
+  if (env.RECAPKIT_ROUTING_FILE) {
+    let text: string;
+    try {
+      text = readFileSync(env.RECAPKIT_ROUTING_FILE, "utf8");
+    } catch (err) {
+      throw new RoutingConfigError([
+        `RECAPKIT_ROUTING_FILE could not be read (${err instanceof Error ? err.message : String(err)})`,
+      ]);
+    }
+    raw = mergeRouting(raw, parseOverride(text, "RECAPKIT_ROUTING_FILE"));
+    sources.push("file");
+  }
+
+  if (env.RECAPKIT_ROUTING) {
+    raw = mergeRouting(raw, parseOverride(env.RECAPKIT_ROUTING, "RECAPKIT_ROUTING"));
+    sources.push("env");
+  }
+
+  const res = validateRoutingConfig(raw);
+  if (!res.ok) throw new RoutingConfigError(res.errors);
+  return { config: res.config, sources };
+}
+
+let cached: { config: RoutingConfig; sources: RoutingSource[] } | null = null;
+
+/** The process-wide routing config (loaded + validated on first use; see instrumentation.ts). */
+export function getRoutingConfig(): { config: RoutingConfig; sources: RoutingSource[] } {
+  if (!cached) cached = loadRoutingConfig();
+  return cached;
+}
@@ -0,0 +1,150 @@
+// web/lib/ai/schemas.ts
+// Runtime validation for the task contracts in lib/ai/tasks.ts.
+// Near-misses are coerced (string instead of array, array instead of string, missing
+// optional keys); anything that can't be coerced is reported as an error.
+
+import type {
+  AITask,
+  CoreOutputs,
+  FollowUpEmailOutput,
+  NormalizerJson,
+  TranscriptPolishOutput,
+} from "@/lib/ai/tasks";
+
+export type Validation<T> =
+  | { ok: true; value: T; coerced: string[] } // coerced: human-readable notes, one per fix applied
+  | { ok: false; errors: string[] };
+
+export type Validator<T> = (raw: unknown) => Validation<T>;
+
+type Field<T> = { value?: T; coerced?: string; error?: string };
+
+function asObject(x: unknown): Record<string, unknown> | null {
+  return x && typeof x === "object" && !Array.isArray(x) ? (x as Record<string, unknown>) : null;
+}
+
+function isScalar(x: unknown): x is string | number | boolean {
+  return typeof x === "string" || typeof x === "number" || typeof x === "boolean";
+}
+
+/** String field. Arrays of scalars are joined with newlines; numbers/booleans stringified. */
+function stringField(obj: Record<string, unknown>, key: string, required: boolean): Field<string> {
+  const v = obj[key];
+
+  if (v === undefined || v === null) {
+    return required ? { error: `"${key}" is required` } : {};
+  }
+  if (typeof v === "string") {
+    if (required && !v.trim()) return { error: `"${key}" is empty` };
+    return { value: v };
+  }
+  if (isScalar(v)) return { value: String(v), coerced: `"${key}" converted to string` };
+  if (Array.isArray(v) && v.every(isScalar)) {
+    const joined = v.map(String).join("\n");
+    if (required && !joined.trim()) return { error: `"${key}" is empty` };
+    return { value: joined, coerced: `"${key}" joined from array` };
+  }
+  return { error: `"${key}" must be a string` };
+}
+
+/** Optional string[] field. A single string becomes one item per non-empty line. */
+function stringListField(obj: Record<string, unknown>, key: string): Field<string[]> {
+  const v = obj[key];
+
+  if (v === undefined || v === null) return {};
+  if (typeof v === "string") {
+    const list = v
+      .split("\n")
+      .map((l) => l.replace(/^\s*([-*•]|\d+[.)])\s+/, "").trim())
+      .filter(Boolean);
+    return { value: list, coerced: `"${key}" split from string` };
+  }
+  if (Array.isArray(v)) {
+    const list = v.filter(isScalar).map((x) => String(x).trim()).filter(Boolean);
+    const dropped = v.length - v.filter(isScalar).length;
+    return { value: list, coerced: dropped ? `"${key}" dropped ${dropped} non-text item(s)` : undefined };
+  }
+  return { error: `"${key}" must be an array of strings` };
+}
+
+/* -------------------- contracts -------------------- */
+
+const NORMALIZER_LIST_KEYS = [
+  "topics",
+  "decisions",
+  "action_item_candidates",
+  "dates_mentioned",
+  "attendees",
+  "blockers_risks",
+  "open_questions",
+  "ambiguity_flags",
+] as const;
+
+export const validateNormalizerJson: Validator<NormalizerJson> = (raw) => {
+  const obj = asObject(raw);
+  if (!obj) return { ok: false, errors: ["Expected a JSON object"] };
+
+  const errors: string[] = [];
+  const coerced: string[] = [];
+  const out: NormalizerJson = {};
+
+  const objective = stringField(obj, "meeting_objective", false);
+  if (objective.error) errors.push(objective.error);
+  if (objective.coerced) coerced.push(objective.coerced);
+  if (objective.value?.trim()) out.meeting_objective = objective.value.trim();
+
+  for (const key of NORMALIZER_LIST_KEYS) {
+    const f = stringListField(obj, key);
+    if (f.error) errors.push(f.error);
+    if (f.coerced) coerced.push(f.coerced);
+    out[key] = f.value ?? [];
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: out, coerced };
+};
+
+export const validateCoreOutputs: Validator<CoreOutputs> = (raw) => {
+  const obj = asObject(raw);
+  if (!obj) return { ok: false, errors: ["Expected a JSON object"] };
+
+  const summary = stringField(obj, "summary", true);
+  const actionItems = stringField(obj, "actionItems", true);
+  const email = stringField(obj, "email", false);
+
+  const errors = [summary.error, actionItems.error, email.error].filter((e): e is string => Boolean(e));
+  if (errors.length) return { ok: false, errors };
+
+  const coerced = [summary.coerced, actionItems.coerced, email.coerced].filter((c): c is string => Boolean(c));
+  return {
+    ok: true,
+    value: { summary: summary.value as string, actionItems: actionItems.value as string, email: email.value },
+    coerced,
+  };
+};
+
+export const validateFollowUpEmailOutput: Validator<FollowUpEmailOutput> = (raw) => {
+  const obj = asObject(raw);
+  if (!obj) return { ok: false, errors: ["Expected a JSON object"] };
+
+  const email = stringField(obj, "email", true);
+  if (email.error) return { ok: false, errors: [email.error] };
+  return { ok: true, value: { email: email.value as string }, coerced: email.coerced ? [email.coerced] : [] };
+};
+
+export const validateTranscriptPolishOutput: Validator<TranscriptPolishOutput> = (raw) => {
+  const obj = asObject(raw);
+  if (!obj) return { ok: false, errors: ["Expected a JSON object"] };
+
+  const notes = stringField(obj, "notes", true);
+  if (notes.error) return { ok: false, errors: [notes.error] };
+  return { ok: true, value: { notes: notes.value as string }, coerced: notes.coerced ? [notes.coerced] : [] };
+};
+
+/** Short description of the expected shape, used in repair prompts. */
+export const CONTRACT_SHAPES: Partial<Record<AITask, string>> = {
+  A_NORMALIZE: `{"meeting_objective": string, ${NORMALIZER_LIST_KEYS.map((k) => `"${k}": string[]`).join(", ")}}`,
+  B_CORE_OUTPUTS: `{"summary": string, "actionItems": string}`,
+  C_REFINE: `{"summary": string, "actionItems": string}`,
+  D_TRANSCRIPT_POLISH: `{"notes": string}`,
+  E_FOLLOW_UP_EMAIL: `{"email": string}`,
+};
@@ -11,6 +11,7 @@ export type ContextStats = {
   rawNotesChars: number;
   mergedNotesChars: number;
   highlightsCount?: number;
+  estimatedTokens?: number; // merged notes, see lib/ai/tokens.ts
 };
 
 export type NormalizerJson = {
@@ -32,6 +33,10 @@ export type CoreOutputs = {
   email?: string;
 };
 
+export type TranscriptPolishOutput = {
+  notes: string; // "- Speaker: text" bullets, ready for Session.rawNotes
+};
+
 export type FollowUpEmailOutput = {
   email: string;
 };
\ No newline at end of file
@@ -0,0 +1,49 @@
+// web/lib/ai/tokens.ts
+// Token + cost estimates per model family. Estimates only: used for quotas and the usage
+// ledger when a provider doesn't report usage. Prices are USD per 1M tokens.
+
+type ModelFamily = {
+  match: (model: string) => boolean;
+  charsPerToken: number; // ASCII text
+  nonAsciiCharsPerToken: number; // accented / CJK text splits into more tokens
+};
+
+const FAMILIES: ModelFamily[] = [
+  // o200k-style tokenizers
+  { match: (m) => /^gpt-(4\.1|4o|5)/.test(m), charsPerToken: 4, nonAsciiCharsPerToken: 1.5 },
+  // Local / open models behind an OpenAI-compatible server (llama, mistral, qwen, ...)
+  { match: () => true, charsPerToken: 3.5, nonAsciiCharsPerToken: 1.2 },
+];
+
+const PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-5-mini": { input: 0.25, output: 2.0 },
+  "gpt-5.2": { input: 1.75, output: 14.0 },
+};
+
+function familyFor(model: string): ModelFamily {
+  return FAMILIES.find((f) => f.match(model)) as ModelFamily;
+}
+
+export function estimateTokens(text: string, model = "gpt-4.1-mini"): number {
+  if (!text) return 0;
+  const family = familyFor(model);
+
+  let ascii = 0;
+  for (let i = 0; i < text.length; i++) if (text.charCodeAt(i) < 128) ascii++;
+  const nonAscii = text.length - ascii;
+
+  return Math.ceil(ascii / family.charsPerToken + nonAscii / family.nonAsciiCharsPerToken);
+}
+
+/** Estimated USD cost; 0 for models without a known price (local servers). */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  // Mock and provider-resolved ids ("mock:gpt-5-mini", "gpt-5-mini-2025-08-07") price as their base model
+  const base = model.replace(/^mock:/, "");
+  const key = Object.keys(PRICES).find((k) => base === k || base.startsWith(`${k}-`));
+  if (!key) return 0;
+
+  const price = PRICES[key];
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
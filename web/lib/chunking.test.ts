@@ -0,0 +1,72 @@
+// web/lib/chunking.test.ts
+// Splitting long notes into chunks and merging per-chunk action-item lists back into one.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { chunkNotes, mergeActionItemLists, parseActionItemList } from "@/lib/chunking";
+
+function list(...items: [text: string, owner: string, due: string][]): string {
+  return [
+    "Action Items",
+    "",
+    ...items.flatMap(([text, owner, due], i) => [`${i + 1}. ${text}`, `   - Owner: ${owner}`, `   - Due: ${due}`, ""]),
+  ].join("\n");
+}
+
+test("chunks stay under the limit and keep nested bullets with their parent", () => {
+  const notes = [
+    "# Pricing",
+    "- Raise list price",
+    "  - check with finance",
+    "- Update the deck",
+    "# Hiring",
+    "- Open two roles",
+  ].join("\n");
+  const chunks = chunkNotes(notes, 60);
+
+  assert.ok(chunks.length > 1);
+  assert.ok(chunks.every((c) => c.length <= 60));
+  assert.ok(chunks.some((c) => c.includes("- Raise list price\n  - check with finance")));
+});
+
+test("the same task for different owners stays two items", () => {
+  const merged = parseActionItemList(
+    mergeActionItemLists([
+      list(["Send the pricing deck to the client", "Logan", "Friday"]),
+      list(["Send the pricing deck to the client", "Mike", "Friday"]),
+    ])
+  );
+
+  assert.equal(merged.items.length, 2);
+  assert.deepEqual(
+    merged.items.map((b) => b[1]),
+    ["- Owner: Logan", "- Owner: Mike"]
+  );
+});
+
+test("a later chunk fills in the owner and due an unassigned first mention lacks", () => {
+  const merged = parseActionItemList(
+    mergeActionItemLists([
+      list(["Send the pricing deck to the client", "Unassigned", "No due date"]),
+      list(["Send the pricing deck to the client", "Logan", "Friday (2026-10-23)"]),
+    ])
+  );
+
+  assert.equal(merged.items.length, 1);
+  assert.deepEqual(merged.items[0], [
+    "Send the pricing deck to the client",
+    "- Owner: Logan",
+    "- Due: Friday (2026-10-23)",
+  ]);
+});
+
+test("an unassigned later mention merges into the assigned one", () => {
+  const merged = parseActionItemList(
+    mergeActionItemLists([
+      list(["Send the pricing deck to the client", "Logan", "Friday"]),
+      list(["Send the pricing deck to the client", "Unassigned", "Friday"]),
+    ])
+  );
+  assert.equal(merged.items.length, 1);
+  assert.equal(merged.items[0][1], "- Owner: Logan");
+});
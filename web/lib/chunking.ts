@@ -0,0 +1,269 @@
+// web/lib/chunking.ts
+// Map-reduce helpers for long meetings: split merged notes into chunks on heading and
+// bullet boundaries (map), then merge per-chunk results into one recap (reduce).
+
+import type { CoreOutputs, NormalizerJson } from "@/lib/ai/tasks";
+import { outputItemKey, parseOutputSections } from "@/lib/ai/refine";
+import { isSameActionText } from "@/lib/recap";
+import { isSelfOwner } from "@/lib/roster";
+
+const HEADING_RE = /^\s*#{1,6}\s+\S/;
+
+/**
+ * Top-level units: a heading line, or a top-level line plus everything indented under it
+ * (nested bullets stay with their parent).
+ */
+function splitUnits(lines: string[]): { text: string; heading: boolean }[] {
+  const units: { text: string; heading: boolean }[] = [];
+
+  for (const line of lines) {
+    const indented = /^\s+\S/.test(line) && !HEADING_RE.test(line);
+    const last = units[units.length - 1];
+    if (indented && last && !last.heading) {
+      last.text += `\n${line}`;
+    } else if (line.trim()) {
+      units.push({ text: line, heading: HEADING_RE.test(line) });
+    }
+  }
+
+  return units;
+}
+
+// Oversized single unit (a giant paragraph): break on lines, then hard-split
+function splitOversized(text: string, maxChars: number): string[] {
+  const out: string[] = [];
+  let current = "";
+
+  for (const line of text.split("\n")) {
+    for (let i = 0; i < Math.max(1, line.length); i += maxChars) {
+      const piece = line.slice(i, i + maxChars);
+      if (current && current.length + piece.length + 1 > maxChars) {
+        out.push(current);
+        current = "";
+      }
+      current = current ? `${current}\n${piece}` : piece;
+    }
+  }
+  if (current) out.push(current);
+
+  return out;
+}
+
+/**
+ * Split merged notes into chunks of at most ~maxChars. Splits prefer headings, then
+ * top-level bullets; a chunk that starts mid-section repeats the section heading so
+ * section context (Post-Meeting Notes, Meeting Outcome, topics) survives the split.
+ */
+export function chunkNotes(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let size = 0;
+  let heading = ""; // section the next unit belongs to
+
+  const flush = () => {
+    if (current.length) chunks.push(current.join("\n"));
+    current = [];
+    size = 0;
+  };
+
+  for (const unit of splitUnits(text.split(/\r?\n/))) {
+    if (unit.heading) {
+      // Start a fresh chunk at a heading once the current one is reasonably full
+      if (size > maxChars / 2) flush();
+      heading = unit.text;
+    }
+
+    const pieces = unit.text.length > maxChars ? splitOversized(unit.text, maxChars) : [unit.text];
+    for (const piece of pieces) {
+      if (size && size + piece.length + 1 > maxChars) {
+        flush();
+        if (heading && !unit.heading) {
+          current.push(heading);
+          size = heading.length + 1;
+        }
+      }
+      current.push(piece);
+      size += piece.length + 1;
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/* -------------------- reduce -------------------- */
+
+function uniqueCaseInsensitive(list: string[]): string[] {
+  const seen = new Set<string>();
+  return list.filter((x) => {
+    const k = x.toLowerCase().trim();
+    if (!k || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+export function mergeNormalizerJson(parts: NormalizerJson[]): NormalizerJson {
+  const list = (pick: (n: NormalizerJson) => string[] | undefined) =>
+    uniqueCaseInsensitive(parts.flatMap((p) => pick(p) ?? []));
+
+  return {
+    meeting_objective: parts.find((p) => p.meeting_objective)?.meeting_objective,
+    topics: list((p) => p.topics),
+    decisions: list((p) => p.decisions),
+    action_item_candidates: list((p) => p.action_item_candidates),
+    dates_mentioned: list((p) => p.dates_mentioned),
+    attendees: list((p) => p.attendees),
+    blockers_risks: list((p) => p.blockers_risks),
+    open_questions: list((p) => p.open_questions),
+    ambiguity_flags: list((p) => p.ambiguity_flags),
+  };
+}
+
+/** Section-wise union of sectioned summaries (same layout as makeExecutiveSummary). */
+export function mergeSummaries(summaries: string[], maxPerSection = 8): string {
+  const merged = new Map<string, string[]>();
+
+  for (const summary of summaries) {
+    for (const [title, items] of parseOutputSections(summary)) {
+      const list = merged.get(title) ?? [];
+      for (const item of items) {
+        if (!list.some((x) => outputItemKey(x) === outputItemKey(item))) list.push(item);
+      }
+      merged.set(title, list);
+    }
+  }
+
+  const out: string[] = [];
+  for (const [title, items] of merged) {
+    if (!items.length) continue;
+    if (out.length) out.push("");
+    if (title) out.push(title, "-".repeat(Math.min(24, Math.max(8, title.length))));
+    out.push(...items.slice(0, maxPerSection));
+    if (items.length > maxPerSection) out.push(`- (+${items.length - maxPerSection} more)`);
+  }
+  return out.join("\n");
+}
+
+/** Action-item text (formatActionItems layout): item blocks (first line + detail lines) and "Checks" lines. */
+export type ActionItemList = { items: string[][]; checks: string[] };
+
+const ITEM_NUMBER_RE = /^\s*\d+[.)]\s+/;
+
+export function parseActionItemList(text: string): ActionItemList {
+  const items: string[][] = [];
+  const checks: string[] = [];
+  let inChecks = false;
+
+  for (const line of text.split("\n")) {
+    if (/^\s*Checks\s*$/i.test(line)) {
+      inChecks = true;
+    } else if (ITEM_NUMBER_RE.test(line)) {
+      inChecks = false;
+      items.push([line.trim().replace(ITEM_NUMBER_RE, "")]);
+    } else if (inChecks && line.trim()) {
+      checks.push(line.trim());
+    } else if (/^\s+\S/.test(line) && items.length) {
+      items[items.length - 1].push(line.trim());
+    }
+  }
+
+  // "+N more" lines are recomputed when the list is rendered again
+  return { items, checks: checks.filter((c) => !/^- \(\+\d+ more\)$/.test(c)) };
+}
+
+/** "- Owner: Jackie" / "- Due: Friday" detail line of an item block ("Unassigned"/"No due date" = none). */
+export function actionItemDetail(block: string[], label: string): string | undefined {
+  const re = new RegExp(`^-\\s*${label}:\\s*(.+)$`, "i");
+  const hit = block.slice(1).map((l) => l.match(re)?.[1]?.trim()).find(Boolean);
+  return hit && !/^(unassigned|no due date)$/i.test(hit) ? hit : undefined;
+}
+
+/** Render a parsed list back: items renumbered, checks de-duplicated and capped. */
+export function formatActionItemList(list: ActionItemList, maxChecks = 8): string {
+  if (!list.items.length) return "No obvious action items found.";
+
+  const out: string[] = ["Action Items", ""];
+  list.items.forEach((block, idx) => {
+    out.push(`${idx + 1}. ${block[0]}`);
+    for (const detail of block.slice(1)) out.push(`   ${detail}`);
+    out.push("");
+  });
+
+  const checks = uniqueCaseInsensitive(list.checks);
+  if (checks.length) {
+    out.push("Checks", "", ...checks.slice(0, maxChecks));
+    if (checks.length > maxChecks) out.push(`- (+${checks.length - maxChecks} more)`);
+  }
+
+  return out.join("\n").trim();
+}
+
+function ownerKey(block: string[]): string {
+  const owner = actionItemDetail(block, "Owner") ?? "";
+  return Array.from(new Set(owner.split(/\s*,\s*/).map((o) => o.toLowerCase()).filter(Boolean)))
+    .sort()
+    .join("\n");
+}
+
+// Same ranking as mergeDuplicateActionItems: a named owner over "me", a resolved date over a phrase
+function ownerRank(block: string[]): number {
+  const owner = actionItemDetail(block, "Owner");
+  if (!owner) return 0;
+  return owner.split(/\s*,\s*/).every(isSelfOwner) ? 1 : 2;
+}
+
+function dueRank(block: string[]): number {
+  const due = actionItemDetail(block, "Due");
+  if (!due) return 0;
+  return /\(\d{4}-\d{2}-\d{2}\)$/.test(due) ? 2 : 1;
+}
+
+function withDetail(block: string[], label: string, from: string[]): string[] {
+  const re = new RegExp(`^-\\s*${label}:`, "i");
+  const line = from.find((l, i) => i > 0 && re.test(l));
+  if (!line) return block;
+  const at = block.findIndex((l, i) => i > 0 && re.test(l));
+  return at < 0 ? [block[0], line, ...block.slice(1)] : block.map((l, i) => (i === at ? line : l));
+}
+
+/**
+ * Merge numbered action-item lists: items are de-duplicated on their first line (same rule
+ * as mergeDuplicateActionItems: never across different owners, keeping the most specific owner
+ * and due) and renumbered; "Checks" lines are pooled and capped.
+ */
+export function mergeActionItemLists(lists: string[], maxChecks = 8): string {
+  const parsed = lists.map(parseActionItemList);
+
+  // The same task often shows up in two chunks (raw notes vs post-meeting notes): keep the first
+  // block's text and fill in a more specific owner or due from the later one
+  const items: string[][] = [];
+  for (const block of parsed.flatMap((p) => p.items)) {
+    const key = ownerKey(block);
+    const at = items.findIndex((u) => {
+      const owners = ownerKey(u);
+      if (owners && key && owners !== key) return false;
+      return outputItemKey(u[0]) === outputItemKey(block[0]) || isSameActionText(u[0], block[0]);
+    });
+    if (at < 0) {
+      items.push(block);
+      continue;
+    }
+
+    let merged = items[at];
+    if (ownerRank(block) > ownerRank(merged)) merged = withDetail(merged, "Owner", block);
+    if (dueRank(block) > dueRank(merged)) merged = withDetail(merged, "Due", block);
+    items[at] = merged;
+  }
+
+  return formatActionItemList({ items, checks: parsed.flatMap((p) => p.checks) }, maxChecks);
+}
+
+export function mergeCoreOutputs(parts: CoreOutputs[]): CoreOutputs {
+  return {
+    summary: mergeSummaries(parts.map((p) => p.summary)),
+    actionItems: mergeActionItemLists(parts.map((p) => p.actionItems)),
+  };
+}
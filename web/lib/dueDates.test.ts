@@ -0,0 +1,26 @@
+// web/lib/dueDates.test.ts
+// Due-date phrases against a fixed meeting date, and look-alikes that must not become deadlines.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findDueDate } from "@/lib/dueDates";
+
+const ctx = { meetingDate: "2026-10-19" };
+
+test("quarters resolve after by / end of / a date context word", () => {
+  assert.deepEqual(findDueDate("Ship the beta by Q3", ctx), { phrase: "by Q3", date: "2027-09-30" });
+  assert.deepEqual(findDueDate("Close the books end of Q4", ctx), { phrase: "end of Q4", date: "2026-12-31" });
+  assert.equal(findDueDate("Migration due: Q1 2027", ctx)?.date, "2027-03-31");
+});
+
+test("a quarter named without a deadline word is not a due date", () => {
+  assert.equal(findDueDate("Review the Q3 numbers", ctx), undefined);
+  assert.equal(findDueDate("Q2 2027 planning deck", ctx), undefined);
+});
+
+test("bare M/D needs date context; weekday abbreviations need a capital or context", () => {
+  assert.equal(findDueDate("Cut price to 1/2 of list", ctx), undefined);
+  assert.equal(findDueDate("Ship by 1/2", ctx)?.date, "2027-01-02");
+  assert.equal(findDueDate("we sat down with legal", ctx), undefined);
+  assert.equal(findDueDate("Review Sat", ctx)?.date, "2026-10-24");
+});
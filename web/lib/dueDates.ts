@@ -0,0 +1,331 @@
+// web/lib/dueDates.ts
+// Deterministic due-date resolution for action items.
+// Turns phrases like "tomorrow", "next Tuesday", "in 2 weeks", "by Q3" or "March 14th" into a
+// calendar date (YYYY-MM-DD), anchored on the meeting date in the user's time zone.
+// All date math is done on UTC calendar days, so results never shift with the server's zone.
+// Phrases come from the locale lexicon (lib/lexicons.ts), so Spanish/French/German notes resolve too.
+
+import { getLexicon, phraseAlternation, WORD_END, WORD_START, type DateLexicon, type RecapLocale } from "./lexicons";
+
+export type DueDateContext = {
+  /**
+   * Meeting date as YYYY-MM-DD. Relative phrases resolve against this day.
+   * Defaults to "today" in `timeZone`.
+   */
+  meetingDate?: string;
+
+  /**
+   * IANA time zone (ex: "America/Toronto"). Only used to derive the default meeting date.
+   */
+  timeZone?: string;
+
+  /**
+   * Language of the notes (weekday/month names, "next week" phrasing). Defaults to English.
+   */
+  locale?: RecapLocale;
+};
+
+export type DueMatch = {
+  phrase: string; // as written in the notes
+  date?: string; // YYYY-MM-DD, undefined when the phrase can't be pinned to a day
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest alternatives first so "tuesday" wins over "tue".
+const alternation = phraseAlternation;
+
+/* -------------------- calendar helpers -------------------- */
+
+function fromParts(y: number, m: number, d: number): Date | null {
+  const dt = new Date(Date.UTC(y, m, d));
+  // Reject overflow like Feb 30 -> Mar 2
+  if (dt.getUTCFullYear() !== y || dt.getUTCMonth() !== m || dt.getUTCDate() !== d) return null;
+  return dt;
+}
+
+function parseIsoDate(s: string): Date | null {
+  const m = s.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return null;
+  return fromParts(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+}
+
+function toIso(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function addDays(d: Date, n: number): Date {
+  return new Date(d.getTime() + n * DAY_MS);
+}
+
+function addMonths(d: Date, n: number): Date {
+  const y = d.getUTCFullYear();
+  const m = d.getUTCMonth() + n;
+  // Clamp to the last day of the target month (Jan 31 + 1 month = Feb 28/29)
+  const last = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m, Math.min(d.getUTCDate(), last)));
+}
+
+function endOfMonth(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0));
+}
+
+function endOfQuarter(year: number, quarter: number): Date {
+  return new Date(Date.UTC(year, quarter * 3, 0));
+}
+
+/** Upcoming weekday, counting the anchor day itself. */
+function upcomingWeekday(anchor: Date, weekday: number): Date {
+  return addDays(anchor, (weekday - anchor.getUTCDay() + 7) % 7);
+}
+
+/** Days since Monday (Mon = 0 ... Sun = 6). */
+function mondayOffset(d: Date): number {
+  return (d.getUTCDay() + 6) % 7;
+}
+
+/**
+ * "next Tuesday": the Tuesday of the following week. When the upcoming Tuesday already falls
+ * in a later week than the anchor (ex: said on a Saturday), that Tuesday is used.
+ */
+function nextWeekday(anchor: Date, weekday: number): Date {
+  const upcoming = upcomingWeekday(anchor, weekday);
+  const sameWeek = mondayOffset(anchor) + (upcoming.getTime() - anchor.getTime()) / DAY_MS < 7;
+  return sameWeek ? addDays(upcoming, 7) : upcoming;
+}
+
+/** Month/day without a year: the next occurrence on or after the anchor. */
+function nextOccurrence(anchor: Date, month: number, day: number): Date | null {
+  const y = anchor.getUTCFullYear();
+  const thisYear = fromParts(y, month, day);
+  if (thisYear && thisYear.getTime() >= anchor.getTime()) return thisYear;
+  return fromParts(y + 1, month, day) ?? thisYear;
+}
+
+function explicitDate(anchor: Date, year: string | undefined, month: number, day: number): Date | null {
+  if (!year) return nextOccurrence(anchor, month, day);
+  const y = Number(year);
+  return fromParts(y < 100 ? 2000 + y : y, month, day);
+}
+
+function toNumber(word: string, numberWords: Record<string, number>): number {
+  const lower = word.toLowerCase();
+  return numberWords[lower] ?? Number(lower);
+}
+
+/**
+ * Today's calendar date in the given IANA zone (falls back to UTC for unknown zones).
+ */
+export function todayInTimeZone(timeZone?: string, now: number = Date.now()): string {
+  try {
+    // en-CA formats as YYYY-MM-DD
+    return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(
+      new Date(now)
+    );
+  } catch {
+    return new Date(now).toISOString().slice(0, 10);
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function resolveAnchor(ctx?: DueDateContext): Date {
+  const fromCtx = ctx?.meetingDate ? parseIsoDate(ctx.meetingDate) : null;
+  return fromCtx ?? parseIsoDate(todayInTimeZone(ctx?.timeZone)) ?? new Date();
+}
+
+/* -------------------- rules -------------------- */
+
+type DueRule = {
+  re: RegExp;
+  // null = phrase recognized as a due date, but not resolvable to a calendar day
+  resolve: (m: RegExpMatchArray, anchor: Date) => Date | null;
+  // Ambiguous matches ("1/2", "sat") are only dates in context; later matches are tried on false
+  accept?: (m: RegExpMatchArray, text: string) => boolean;
+};
+
+// Phrase list => regex with unicode word boundaries (accented words need them)
+function phrases(list: string[]): RegExp | null {
+  if (!list.length) return null;
+  return new RegExp(`${WORD_START}(?:${alternation(list)})${WORD_END}`, "iu");
+}
+
+function lookup(table: Record<string, number>, word: string): number {
+  return table[word.toLowerCase()];
+}
+
+// Order matters: more specific phrases come first ("next friday" before "friday").
+function buildDueRules(lex: DateLexicon): DueRule[] {
+  const weekdayAlt = alternation(Object.keys(lex.weekdays));
+  const monthAlt = alternation(Object.keys(lex.months));
+  const numberAlt = `\\d{1,3}|${alternation(Object.keys(lex.numberWords))}`;
+  const joinerAlt = lex.dayMonthJoiners.length ? `(?:(?:${alternation(lex.dayMonthJoiners)})\\s+)?` : "";
+  const sep = `[${lex.numericSeparators.replace(/[\]\\^-]/g, "\\$&")}]`;
+
+  // "by ", "due: ", "el " right before the match
+  const contextBefore = lex.dateContext.length
+    ? new RegExp(`${WORD_START}(?:${alternation(lex.dateContext)})\\s*:?\\s+$`, "iu")
+    : null;
+  const inContext = (m: RegExpMatchArray, text: string) =>
+    Boolean(contextBefore?.test(text.slice(0, m.index ?? 0)));
+
+  const rules: (DueRule | null)[] = [
+    {
+      re: /\b(\d{4})-(\d{2})-(\d{2})\b/,
+      resolve: (m) => fromParts(Number(m[1]), Number(m[2]) - 1, Number(m[3])),
+    },
+    // "day after tomorrow" contains "tomorrow", so it goes first
+    rule(phrases(lex.dayAfterTomorrow), (_m, a) => addDays(a, 2)),
+    rule(phrases(lex.today), (_m, a) => a),
+    rule(phrases(lex.tomorrow), (_m, a) => addDays(a, 1)),
+    rule(
+      lex.nextWeekdayBefore.length
+        ? new RegExp(`${WORD_START}(?:${alternation(lex.nextWeekdayBefore)})\\s+(${weekdayAlt})${WORD_END}`, "iu")
+        : null,
+      (m, a) => nextWeekday(a, lookup(lex.weekdays, m[1]))
+    ),
+    rule(
+      lex.nextWeekdayAfter.length
+        ? new RegExp(`${WORD_START}(${weekdayAlt})\\s+(?:${alternation(lex.nextWeekdayAfter)})${WORD_END}`, "iu")
+        : null,
+      (m, a) => nextWeekday(a, lookup(lex.weekdays, m[1]))
+    ),
+    rule(
+      new RegExp(
+        `${WORD_START}(?:${alternation(lex.inUnitsPrefix)})\\s+(${numberAlt})\\s+(${alternation([
+          ...lex.dayUnits,
+          ...lex.weekUnits,
+          ...lex.monthUnits,
+        ])})${WORD_END}`,
+        "iu"
+      ),
+      (m, a) => {
+        const n = toNumber(m[1], lex.numberWords);
+        const unit = m[2].toLowerCase();
+        if (!Number.isFinite(n)) return null;
+        if (lex.dayUnits.includes(unit)) return addDays(a, n);
+        if (lex.weekUnits.includes(unit)) return addDays(a, n * 7);
+        return addMonths(a, n);
+      }
+    ),
+    rule(phrases(lex.endOfWeek), (_m, a) => upcomingWeekday(a, 5)),
+    // End of next week (Friday)
+    rule(phrases(lex.nextWeek), (_m, a) => addDays(a, 7 - mondayOffset(a) + 4)),
+    rule(phrases(lex.nextMonth), (_m, a) =>
+      endOfMonth(addMonths(new Date(Date.UTC(a.getUTCFullYear(), a.getUTCMonth(), 1)), 1))
+    ),
+    rule(phrases(lex.endOfMonth), (_m, a) => endOfMonth(a)),
+    rule(phrases(lex.endOfQuarter), (_m, a) =>
+      endOfQuarter(a.getUTCFullYear(), Math.floor(a.getUTCMonth() / 3) + 1)
+    ),
+    {
+      re: /\b(?:by\s+|end of\s+)?q([1-4])(?:\s+(\d{4}))?\b/i,
+      resolve: (m, a) => {
+        const quarter = Number(m[1]);
+        if (m[2]) return endOfQuarter(Number(m[2]), quarter);
+        const end = endOfQuarter(a.getUTCFullYear(), quarter);
+        return end.getTime() >= a.getTime() ? end : endOfQuarter(a.getUTCFullYear() + 1, quarter);
+      },
+      // "the Q3 numbers" names a quarter, not a deadline: "by Q3", "end of Q3" or "due: Q3" only
+      accept: (m, text) => /^(?:by|end of)\s/i.test(m[0]) || inContext(m, text),
+    },
+    rule(phrases(lex.endOfYear), (_m, a) => new Date(Date.UTC(a.getUTCFullYear(), 11, 31))),
+    {
+      // "March 14th", "Mar 14", "March 14, 2027"
+      re: new RegExp(
+        `${WORD_START}(${monthAlt})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?${WORD_END}`,
+        "iu"
+      ),
+      resolve: (m, a) => explicitDate(a, m[3], lookup(lex.months, m[1]), Number(m[2])),
+    },
+    {
+      // "14 March", "14th of March 2027", "14 de marzo", "14. März"
+      re: new RegExp(
+        `${WORD_START}(\\d{1,2})(?:st|nd|rd|th|er|\\.)?\\s+${joinerAlt}(${monthAlt})${WORD_END}(?:,?\\s+${joinerAlt}(\\d{4}))?`,
+        "iu"
+      ),
+      resolve: (m, a) => explicitDate(a, m[3], lookup(lex.months, m[2]), Number(m[1])),
+    },
+    {
+      // Numeric "3/14" (US) or "14/3", "14.3.2027" (day first), per locale
+      re: new RegExp(`\\b(\\d{1,2})${sep}(\\d{1,2})(?:${sep}(\\d{2}|\\d{4}))?\\b`),
+      resolve: (m, a) =>
+        lex.dayFirst
+          ? explicitDate(a, m[3], Number(m[2]) - 1, Number(m[1]))
+          : explicitDate(a, m[3], Number(m[1]) - 1, Number(m[2])),
+      // Without a year, "1/2" is as likely a fraction: only a date after "by", "on", "due", ...
+      accept: (m, text) => Boolean(m[3]) || inContext(m, text),
+    },
+    rule(
+      new RegExp(
+        `${WORD_START}(?:(?:${alternation(lex.thisWeekday)})\\s+)?(${weekdayAlt})${WORD_END}`,
+        "iu"
+      ),
+      (m, a) => upcomingWeekday(a, lookup(lex.weekdays, m[1])),
+      // "sat"/"sun"/"wed" are also plain words: "Sat", "this sat" or "by sat" only
+      (m, text) =>
+        !lex.ambiguousWeekdays.includes(m[1].toLowerCase()) ||
+        /^\p{Lu}/u.test(m[1]) ||
+        m[0].length > m[1].length ||
+        inContext(m, text)
+    ),
+    // Recognized deadlines that don't map to a calendar day
+    rule(phrases(lex.unresolvable), () => null),
+  ];
+
+  return rules.filter((r): r is DueRule => Boolean(r));
+}
+
+function rule(re: RegExp | null, resolve: DueRule["resolve"], accept?: DueRule["accept"]): DueRule | null {
+  return re ? { re, resolve, accept } : null;
+}
+
+const rulesByLocale: Partial<Record<RecapLocale, DueRule[]>> = {};
+
+function getDueRules(locale?: RecapLocale): DueRule[] {
+  const lex = getLexicon(locale);
+  return (rulesByLocale[lex.locale] ??= buildDueRules(lex.dates));
+}
+
+function firstMatch(r: DueRule, text: string): RegExpMatchArray | null {
+  if (!r.accept) return text.match(r.re);
+  for (const m of text.matchAll(new RegExp(r.re.source, `${r.re.flags}g`))) {
+    if (r.accept(m, text)) return m;
+  }
+  return null;
+}
+
+/**
+ * Find the first due-date phrase in `text` and resolve it against the meeting date.
+ * Returns undefined when the text contains no due-date phrase at all.
+ */
+export function findDueDate(text: string, ctx?: DueDateContext): DueMatch | undefined {
+  const anchor = resolveAnchor(ctx);
+
+  for (const r of getDueRules(ctx?.locale)) {
+    const m = firstMatch(r, text);
+    if (!m) continue;
+
+    const resolved = r.resolve(m, anchor);
+    return {
+      phrase: m[0].trim(),
+      date: resolved ? toIso(resolved) : undefined,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a standalone phrase ("next Tuesday") to YYYY-MM-DD, or undefined if it can't be resolved.
+ */
+export function resolveDueDate(phrase: string, ctx?: DueDateContext): string | undefined {
+  return findDueDate(phrase, ctx)?.date;
+}
@@ -0,0 +1,108 @@
+// web/lib/extractionRules.ts
+// User-configurable action-item extraction rules, attached to a Folder.
+// They extend the built-in locale lexicon (lib/lexicons.ts) instead of replacing it.
+
+import type { Lexicon } from "./lexicons";
+
+export type ExtractionRules = {
+  extraVerbs: string[]; // team jargon that marks an action: "loop in", "circle back", "ping", "jira it"
+  ignoredPhrases: string[]; // lines containing these are never verb-matched actions: "went well"
+  ownerPatterns: string[]; // "{owner}" marks the name: "DRI: {owner}", "{owner} to handle"
+  vaguePhrases: string[]; // extra "Possibly vague" triggers: "circle back"
+};
+
+export const OWNER_PLACEHOLDER = "{owner}";
+
+export function emptyExtractionRules(): ExtractionRules {
+  return { extraVerbs: [], ignoredPhrases: [], ownerPatterns: [], vaguePhrases: [] };
+}
+
+function cleanList(x: unknown, lowercase: boolean): string[] {
+  if (!Array.isArray(x)) return [];
+  const out = x
+    .map((v) => String(v ?? "").trim())
+    .map((v) => (lowercase ? v.toLowerCase() : v))
+    .filter(Boolean);
+  return Array.from(new Set(out)).slice(0, 100); // hard cap for safety
+}
+
+/**
+ * Back-compat / API input: coerce unknown JSON into clean rules (lists trimmed, de-duped).
+ */
+export function normalizeExtractionRules(raw: unknown): ExtractionRules {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  return {
+    extraVerbs: cleanList(r.extraVerbs, true),
+    ignoredPhrases: cleanList(r.ignoredPhrases, true),
+    // Owner patterns keep their case: "{owner}" itself must stay lowercase, literals are matched case-insensitively
+    ownerPatterns: cleanList(r.ownerPatterns, false).filter((p) => p.includes(OWNER_PLACEHOLDER)),
+    vaguePhrases: cleanList(r.vaguePhrases, true),
+  };
+}
+
+export function hasExtractionRules(rules?: ExtractionRules): boolean {
+  return Boolean(
+    rules &&
+      (rules.extraVerbs.length || rules.ignoredPhrases.length || rules.ownerPatterns.length || rules.vaguePhrases.length)
+  );
+}
+
+/**
+ * Built-in lexicon + folder rules. Multi-word verbs go to phraseVerbs (substring match),
+ * single words to verbs (word-boundary match), mirroring the built-in lists.
+ */
+export function withExtractionRules(lex: Lexicon, rules?: ExtractionRules): Lexicon {
+  if (!hasExtractionRules(rules)) return lex;
+  const r = rules as ExtractionRules;
+
+  const phrases = r.extraVerbs.filter((v) => /\s/.test(v));
+  const words = r.extraVerbs.filter((v) => !/\s/.test(v));
+
+  return {
+    ...lex,
+    phraseVerbs: [...lex.phraseVerbs, ...phrases],
+    verbs: [...lex.verbs, ...words],
+    vaguePhrases: [...lex.vaguePhrases, ...r.vaguePhrases],
+  };
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compile "{owner}" patterns into regexes whose first group captures the owner name(s).
+ * `nameList` is the regex source for one or more names (supplied by the extractor).
+ */
+export function compileOwnerPatterns(patterns: string[], nameList: string): RegExp[] {
+  return patterns
+    .map((p) => {
+      const [before, ...rest] = p.split(OWNER_PLACEHOLDER);
+      const after = rest.join(OWNER_PLACEHOLDER);
+      const lit = (s: string) => escapeRegExp(s.trim()).replace(/\s+/g, "\\s+");
+
+      const src = [before.trim() ? `${lit(before)}\\s*` : "", `(${nameList})`, after.trim() ? `\\s*${lit(after)}` : ""].join(
+        ""
+      );
+
+      try {
+        return new RegExp(src, "iu");
+      } catch {
+        return null;
+      }
+    })
+    .filter((re): re is RegExp => Boolean(re));
+}
+
+/* -------------------- text format (rules editor) -------------------- */
+
+export function parseRuleLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+export function formatRuleLines(list: string[]): string {
+  return list.join("\n");
+}
@@ -0,0 +1,117 @@
+// web/lib/generationCache.ts
+// In-memory cache for /api/generate responses. Users hit Generate / Incorporate / End Meeting
+// repeatedly on unchanged notes; a hit skips the whole pipeline (and its AI tokens).
+// Keyed on a hash of everything that shapes the output: notes, tier, add-ons, session context,
+// routing config and prompt versions. Per server process; entries expire (TTL) and the oldest
+// are evicted past the entry/byte limits. Server-only.
+
+import { createHash } from "crypto";
+
+export type CacheStatus = "hit" | "miss" | "forced" | "off";
+
+export type CacheLimits = {
+  ttlMs: number; // 0 disables the cache
+  maxEntries: number;
+  maxBytes: number; // JSON size of all cached values
+};
+
+type Entry = { value: unknown; bytes: number; storedAt: number };
+
+function envNumber(raw: string | undefined, fallback: number): number {
+  const n = Number(raw);
+  return raw !== undefined && raw !== "" && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/**
+ * Env:
+ * - RECAPKIT_CACHE_TTL_MS (default 30 min; 0 = off)
+ * - RECAPKIT_CACHE_MAX_ENTRIES (default 200)
+ * - RECAPKIT_CACHE_MAX_BYTES (default 20 MB)
+ */
+export function cacheLimits(env: NodeJS.ProcessEnv = process.env): CacheLimits {
+  return {
+    ttlMs: envNumber(env.RECAPKIT_CACHE_TTL_MS, 30 * 60_000),
+    maxEntries: envNumber(env.RECAPKIT_CACHE_MAX_ENTRIES, 200),
+    maxBytes: envNumber(env.RECAPKIT_CACHE_MAX_BYTES, 20_000_000),
+  };
+}
+
+/** Stable JSON (sorted keys) so key order in the inputs never changes the hash. */
+function stableStringify(x: unknown): string {
+  if (Array.isArray(x)) return `[${x.map(stableStringify).join(",")}]`;
+  if (x && typeof x === "object") {
+    const obj = x as Record<string, unknown>;
+    return `{${Object.keys(obj)
+      .filter((k) => obj[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(obj[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(x) ?? "null";
+}
+
+export function cacheKey(parts: Record<string, unknown>): string {
+  return createHash("sha256").update(stableStringify(parts)).digest("hex");
+}
+
+export class GenerationCache {
+  // Map keeps insertion order: re-inserting on read makes the first key the least recently used
+  private entries = new Map<string, Entry>();
+  private bytes = 0;
+
+  constructor(private readonly limits: CacheLimits) {}
+
+  get enabled(): boolean {
+    return this.limits.ttlMs > 0 && this.limits.maxEntries > 0;
+  }
+
+  get(key: string, now = Date.now()): { value: unknown; ageMs: number } | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    const ageMs = now - entry.storedAt;
+    if (ageMs > this.limits.ttlMs) {
+      this.delete(key);
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { value: entry.value, ageMs };
+  }
+
+  set(key: string, value: unknown, now = Date.now()): void {
+    if (!this.enabled) return;
+    const bytes = JSON.stringify(value)?.length ?? 0;
+    // One oversized response would flush everything else
+    if (bytes > this.limits.maxBytes) return;
+
+    this.delete(key);
+    this.entries.set(key, { value, bytes, storedAt: now });
+    this.bytes += bytes;
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.limits.maxEntries && this.bytes <= this.limits.maxBytes) break;
+      this.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.bytes -= entry.bytes;
+    this.entries.delete(key);
+  }
+
+  stats() {
+    return { entries: this.entries.size, bytes: this.bytes, ...this.limits };
+  }
+}
+
+let shared: GenerationCache | null = null;
+
+/** The process-wide cache for /api/generate. */
+export function getGenerationCache(): GenerationCache {
+  if (!shared) shared = new GenerationCache(cacheLimits());
+  return shared;
+}
@@ -0,0 +1,64 @@
+// web/lib/grounding.test.ts
+// Generated action items checked against the notes and the deterministic items.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { groundActionItems } from "@/lib/grounding";
+import { recapNotes } from "@/lib/recap";
+
+const NOTES = ["- Logan to send the pricing deck by Friday", "- Review the vendor contract"].join("\n");
+const ctx = { dueDates: { meetingDate: "2026-10-19" } };
+
+function render(...items: [text: string, owner: string, due: string][]): string {
+  return [
+    "Action Items",
+    "",
+    ...items.flatMap(([text, owner, due], i) => [`${i + 1}. ${text}`, `   - Owner: ${owner}`, `   - Due: ${due}`, ""]),
+  ].join("\n");
+}
+
+test("a matched item takes owner and due from the generated block, spans from the match", () => {
+  const known = recapNotes(NOTES, ctx).structuredActionItems;
+  const deck = known.find((k) => k.text.includes("deck"));
+  assert.ok(deck);
+
+  const { items } = groundActionItems(render(["Send the pricing deck", "Maria", "Monday (2026-10-26)"]), NOTES, {
+    known,
+  });
+
+  assert.equal(items.length, 1);
+  assert.equal(items[0].id, deck.id);
+  assert.equal(items[0].owner, "Maria");
+  assert.deepEqual(items[0].owners, ["Maria"]);
+  assert.equal(items[0].due, "Monday");
+  assert.equal(items[0].dueDate, "2026-10-26");
+  assert.deepEqual(items[0].sourceSpans, deck.sourceSpans);
+});
+
+test("an unchanged owner and due keep the deterministic resolution", () => {
+  const known = recapNotes(NOTES, ctx).structuredActionItems;
+  const deck = known.find((k) => k.text.includes("deck"));
+  assert.ok(deck?.due);
+
+  const { items } = groundActionItems(render(["Send the pricing deck", deck.owner ?? "", deck.due]), NOTES, { known });
+  assert.equal(items[0].dueDate, deck.dueDate);
+  assert.deepEqual(items[0].owners, deck.owners);
+});
+
+test("two generated items matching the same known item get different ids", () => {
+  const known = recapNotes(NOTES, ctx).structuredActionItems;
+  const { items } = groundActionItems(
+    render(["Send the pricing deck", "Logan", "Friday"], ["Send the pricing deck to legal", "Maria", "Friday"]),
+    NOTES,
+    { known }
+  );
+
+  assert.equal(items.length, 2);
+  assert.notEqual(items[0].id, items[1].id);
+});
+
+test("items not in the notes are flagged", () => {
+  const res = groundActionItems(render(["Book the offsite venue", "Maria", "Friday"]), NOTES);
+  assert.equal(res.issues[0]?.type, "ungrounded");
+  assert.match(res.actionItems, /Not found in the notes/);
+});
@@ -0,0 +1,183 @@
+// web/lib/grounding.ts
+// Grounding check for generated action items: each item must cite a line of the merged notes.
+// Items with no supporting line (the model made them up, or rewrote them past recognition)
+// get an "ungrounded" ActionIssue and are either flagged in Checks or dropped.
+
+import {
+  isSameActionText,
+  makeActionItemId,
+  type ActionIssue,
+  type NoteSection,
+  type SourceSpan,
+  type StructuredActionItem,
+} from "@/lib/recap";
+import { actionItemDetail, formatActionItemList, parseActionItemList } from "@/lib/chunking";
+
+export type GroundingMode = "flag" | "drop";
+
+type NoteLine = SourceSpan & { text: string };
+
+/** Non-heading lines of the merged notes with their spans (list markers stripped from `text`). */
+function noteLines(notes: string): NoteLine[] {
+  const out: NoteLine[] = [];
+  let section: NoteSection = "raw";
+  let offset = 0;
+
+  notes.split("\n").forEach((raw, i) => {
+    const lineStart = offset;
+    offset += raw.length + 1;
+
+    const trimmed = raw.trim();
+    if (!trimmed) return;
+    // Same section markers as buildMergedNotes / parseActionItems
+    if (/^##\s*post[- ]?meeting/i.test(trimmed)) section = "postMeeting";
+    else if (/^#{1,6}\s+meeting outcome\s*$/i.test(trimmed)) section = "outcome";
+    if (/^#{1,6}\s+/.test(trimmed)) return;
+
+    out.push({
+      line: i + 1,
+      start: lineStart + (raw.length - raw.trimStart().length),
+      end: lineStart + raw.trimEnd().length,
+      section,
+      text: trimmed.replace(/^(\*|-|\d+[.)])\s+/, "").replace(/^\[[ xX]\]\s*/, ""),
+    });
+  });
+
+  return out;
+}
+
+/** Note lines that support an action (same fuzzy rule as duplicate merging). */
+export function findSourceSpans(text: string, notes: string): SourceSpan[] {
+  return spansIn(text, noteLines(notes));
+}
+
+function spansIn(text: string, lines: NoteLine[]): SourceSpan[] {
+  return lines
+    .filter((l) => isSameActionText(l.text, text))
+    .map(({ line, start, end, section }) => ({ line, start, end, section }));
+}
+
+// "- Due: Friday (2026-10-23)": phrase and resolved date as formatActionItems renders them
+function dueDetail(block: string[]): { due?: string; dueDate?: string } {
+  const due = actionItemDetail(block, "Due");
+  const m = due?.match(/^(.*?)\s*\((\d{4}-\d{2}-\d{2})\)$/);
+  return m ? { due: m[1], dueDate: m[2] } : { due };
+}
+
+const OWNER_ISSUES: ActionIssue["type"][] = ["missingOwner", "unknownOwner"];
+const DUE_ISSUES: ActionIssue["type"][] = ["missingDueDate", "unresolvedDueDate"];
+
+/**
+ * A generated block that matched a deterministic item: owner and due come from the block (the
+ * rendered text and the structured item must agree); notes, sub-tasks and spans from the match.
+ * The match's checks are kept unless the block filled in what they were about.
+ */
+function fromMatch(match: StructuredActionItem, block: string[], id: string, text: string, spans: SourceSpan[]) {
+  const owner = actionItemDetail(block, "Owner");
+  const { due, dueDate } = dueDetail(block);
+  const sameOwner = owner?.toLowerCase() === match.owner?.toLowerCase();
+  const sameDue = due?.toLowerCase() === match.due?.toLowerCase();
+
+  const issues = match.issues
+    .filter((i) => !(owner && !sameOwner && OWNER_ISSUES.includes(i.type)))
+    .filter((i) => !(due && !sameDue && DUE_ISSUES.includes(i.type)))
+    .map((i) => ({ ...i, itemId: id }));
+
+  const item: StructuredActionItem = {
+    ...match,
+    id,
+    text,
+    owner,
+    // Roster-resolved names when the model kept the owner as is
+    owners: owner ? (sameOwner && match.owners ? match.owners : owner.split(/\s*,\s*/)) : undefined,
+    due,
+    dueDate: dueDate ?? (sameDue ? match.dueDate : undefined),
+    sourceSpans: spans,
+    issues,
+  };
+  // Merge sources describe the deterministic fields, which may no longer apply
+  delete item.sources;
+  return item;
+}
+
+export type GroundingResult = {
+  actionItems: string; // rendered list: ungrounded items flagged in Checks, or removed
+  items: StructuredActionItem[]; // one per kept item, with the note lines it came from
+  issues: ActionIssue[]; // the "ungrounded" ones
+};
+
+/**
+ * Check a generated action-item list against the notes. Items matching a deterministic item
+ * (`known`, parsed from the same notes) reuse its spans and id (once: a second block matching
+ * the same item gets its own id); the rest are looked up line by line. Owner and due always
+ * come from the generated block.
+ */
+export function groundActionItems(
+  actionItems: string,
+  notes: string,
+  opts?: { mode?: GroundingMode; known?: StructuredActionItem[] }
+): GroundingResult {
+  const mode = opts?.mode ?? "flag";
+  const known = opts?.known ?? [];
+  const lines = noteLines(notes);
+  const list = parseActionItemList(actionItems);
+  // Not in the numbered layout: nothing to match item by item, leave the text alone
+  if (!list.items.length) return { actionItems, items: [], issues: [] };
+
+  const kept: string[][] = [];
+  const items: StructuredActionItem[] = [];
+  const issues: ActionIssue[] = [];
+  const seen: Record<string, number> = {};
+  const usedIds = new Set<string>();
+
+  for (const block of list.items) {
+    const text = block[0].replace(/^\[[ xX]\]\s*/, "");
+    const match = known.find((k) => isSameActionText(k.text, text));
+    const spans = match?.sourceSpans ?? spansIn(text, lines);
+
+    let id = match && !usedIds.has(match.id) ? match.id : "";
+    while (!id || usedIds.has(id)) {
+      const baseId = makeActionItemId(text);
+      const occurrence = seen[baseId] ?? 0;
+      seen[baseId] = occurrence + 1;
+      id = makeActionItemId(text, occurrence);
+    }
+    usedIds.add(id);
+
+    if (!spans.length) {
+      const issue: ActionIssue = {
+        type: "ungrounded",
+        message:
+          mode === "drop" ? `Removed, not found in the notes: "${text}"` : `Not found in the notes (verify): "${text}"`,
+        itemId: id,
+      };
+      issues.push(issue);
+      if (mode === "drop") continue;
+
+      kept.push(block);
+      items.push({ id, text, owner: actionItemDetail(block, "Owner"), ...dueDetail(block), issues: [issue] });
+      continue;
+    }
+
+    kept.push(block);
+    items.push(
+      match
+        ? fromMatch(match, block, id, text, spans)
+        : {
+            id,
+            text,
+            owner: actionItemDetail(block, "Owner"),
+            ...dueDetail(block),
+            section: spans[0].section,
+            sourceSpans: spans,
+            issues: [],
+          }
+    );
+  }
+
+  if (!issues.length) return { actionItems, items, issues };
+
+  // Grounding problems go first: they matter more than a missing due date
+  const checks = [...issues.map((i) => `- ${i.message}`), ...list.checks];
+  return { actionItems: formatActionItemList({ items: kept, checks }), items, issues };
+}
@@ -0,0 +1,602 @@
+// web/lib/lexicons.ts
+// Locale word lists for the deterministic recap pipeline (action verbs, owner phrasing,
+// relative dates, weekdays, vague phrases). English is the reference; es/fr/de mirror its shape.
+// Entries are lowercase; matching is case-insensitive and accent-sensitive, so common
+// unaccented spellings are listed too.
+
+export type RecapLocale = "en" | "es" | "fr" | "de";
+
+export type LocalePreference = RecapLocale | "auto";
+
+export const RECAP_LOCALES: RecapLocale[] = ["en", "es", "fr", "de"];
+
+export const LOCALE_LABELS: Record<LocalePreference, string> = {
+  auto: "Auto-Detect",
+  en: "English",
+  es: "Español",
+  fr: "Français",
+  de: "Deutsch",
+};
+
+export type DateLexicon = {
+  weekdays: Record<string, number>; // Sunday = 0
+  months: Record<string, number>; // January = 0
+  numberWords: Record<string, number>;
+
+  today: string[];
+  tomorrow: string[];
+  dayAfterTomorrow: string[];
+  nextWeekdayBefore: string[]; // "next Tuesday", "nächsten Dienstag"
+  nextWeekdayAfter: string[]; // "mardi prochain", "martes que viene"
+  thisWeekday: string[]; // "this Friday"
+  inUnitsPrefix: string[]; // "in 2 weeks", "dans 2 semaines"
+  dayUnits: string[];
+  weekUnits: string[];
+  monthUnits: string[];
+  endOfWeek: string[];
+  nextWeek: string[];
+  nextMonth: string[];
+  endOfMonth: string[];
+  endOfQuarter: string[];
+  endOfYear: string[];
+  dayMonthJoiners: string[]; // "14 of March", "14 de marzo"
+  unresolvable: string[]; // deadlines that don't map to a calendar day ("asap")
+  dateContext: string[]; // words right before a date ("by 3/14", "due Sat"); bare "1/2" is a fraction
+  ambiguousWeekdays: string[]; // abbreviations that are also plain words ("sat"): need a capital or dateContext
+
+  dayFirst: boolean; // numeric dates: 14/3 (true) vs 3/14 (false)
+  numericSeparators: string; // characters allowed between numeric date parts
+};
+
+export type Lexicon = {
+  locale: RecapLocale;
+
+  phraseVerbs: string[]; // multi-word actions, matched as substrings
+  verbs: string[]; // single words, matched on word boundaries
+
+  ownerTags: string[]; // "owner: Logan"
+  assignedTo: string[]; // "assigned to Mike"
+  ownerWill: string[]; // "Logan will ...", "Logan va a ..."
+  nameJoiners: string[]; // "Logan and Mike"
+  selfOwner: string[]; // "I will" => Me
+  teamOwner: string[]; // "We will" => We
+
+  vaguePhrases: string[];
+
+  // Frequent function words, used for auto-detection only
+  stopwords: string[];
+
+  dates: DateLexicon;
+};
+
+/* -------------------- regex helpers -------------------- */
+
+// Unicode-aware word boundaries (\b only knows ASCII letters)
+export const WORD_START = "(?<![\\p{L}\\p{N}_])";
+export const WORD_END = "(?![\\p{L}\\p{N}_])";
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Regex source matching any of `phrases` (longest first, flexible whitespace).
+ * Use with the "iu" flags.
+ */
+export function phraseAlternation(phrases: string[]): string {
+  return [...phrases]
+    .sort((a, b) => b.length - a.length)
+    .map((p) => escapeRegExp(p).replace(/\s+/g, "\\s+"))
+    .join("|");
+}
+
+export function containsPhrase(text: string, phrases: string[]): boolean {
+  if (!phrases.length) return false;
+  return new RegExp(`${WORD_START}(?:${phraseAlternation(phrases)})${WORD_END}`, "iu").test(text);
+}
+
+/* -------------------- English -------------------- */
+
+const EN: Lexicon = {
+  locale: "en",
+  phraseVerbs: ["follow up", "touch base"],
+  verbs: [
+    "send",
+    "share",
+    "schedule",
+    "book",
+    "confirm",
+    "review",
+    "update",
+    "fix",
+    "create",
+    "ship",
+    "deliver",
+    "email",
+    "call",
+    "contact",
+  ],
+  ownerTags: ["owner", "owners"],
+  assignedTo: ["assigned to"],
+  ownerWill: ["will"],
+  nameJoiners: ["and"],
+  selfOwner: ["i will"],
+  teamOwner: ["we will"],
+  vaguePhrases: ["look into", "check on", "touch base"],
+  stopwords: ["the", "and", "will", "to", "with", "for", "of", "is", "we", "on"],
+  dates: {
+    weekdays: {
+      sun: 0,
+      sunday: 0,
+      mon: 1,
+      monday: 1,
+      tue: 2,
+      tues: 2,
+      tuesday: 2,
+      wed: 3,
+      wednesday: 3,
+      thu: 4,
+      thur: 4,
+      thurs: 4,
+      thursday: 4,
+      fri: 5,
+      friday: 5,
+      sat: 6,
+      saturday: 6,
+    },
+    months: {
+      jan: 0,
+      january: 0,
+      feb: 1,
+      february: 1,
+      mar: 2,
+      march: 2,
+      apr: 3,
+      april: 3,
+      may: 4,
+      jun: 5,
+      june: 5,
+      jul: 6,
+      july: 6,
+      aug: 7,
+      august: 7,
+      sep: 8,
+      sept: 8,
+      september: 8,
+      oct: 9,
+      october: 9,
+      nov: 10,
+      november: 10,
+      dec: 11,
+      december: 11,
+    },
+    numberWords: {
+      a: 1,
+      an: 1,
+      one: 1,
+      two: 2,
+      three: 3,
+      four: 4,
+      five: 5,
+      six: 6,
+      seven: 7,
+      eight: 8,
+      nine: 9,
+      ten: 10,
+      eleven: 11,
+      twelve: 12,
+    },
+    today: ["today", "tonight", "end of day", "end of the day", "eod"],
+    tomorrow: ["tomorrow"],
+    dayAfterTomorrow: ["day after tomorrow"],
+    nextWeekdayBefore: ["next"],
+    nextWeekdayAfter: [],
+    thisWeekday: ["this"],
+    inUnitsPrefix: ["in", "within"],
+    dayUnits: ["day", "days"],
+    weekUnits: ["week", "weeks"],
+    monthUnits: ["month", "months"],
+    endOfWeek: ["end of week", "end of the week", "eow", "this week"],
+    nextWeek: ["next week"],
+    nextMonth: ["next month"],
+    endOfMonth: ["end of month", "end of the month", "eom"],
+    endOfQuarter: ["end of quarter", "end of the quarter", "eoq"],
+    endOfYear: ["end of year", "end of the year", "eoy"],
+    dayMonthJoiners: ["of"],
+    unresolvable: ["asap", "soon", "later", "next sprint", "end of sprint", "end of the sprint", "tbd"],
+    dateContext: ["by", "on", "due", "before", "until", "till"],
+    ambiguousWeekdays: ["sat", "sun", "wed"],
+    dayFirst: false,
+    numericSeparators: "/",
+  },
+};
+
+/* -------------------- Spanish -------------------- */
+
+const ES: Lexicon = {
+  locale: "es",
+  phraseVerbs: ["dar seguimiento", "hacer seguimiento", "ponerse en contacto", "poner al día"],
+  verbs: [
+    "enviar",
+    "enviará",
+    "mandar",
+    "mandará",
+    "compartir",
+    "compartirá",
+    "programar",
+    "programará",
+    "agendar",
+    "agendará",
+    "reservar",
+    "reservará",
+    "confirmar",
+    "confirmará",
+    "revisar",
+    "revisará",
+    "actualizar",
+    "actualizará",
+    "arreglar",
+    "arreglará",
+    "corregir",
+    "corregirá",
+    "crear",
+    "creará",
+    "entregar",
+    "entregará",
+    "llamar",
+    "llamará",
+    "contactar",
+    "contactará",
+    "preparar",
+    "preparará",
+    "escribir",
+    "escribirá",
+  ],
+  ownerTags: ["responsable", "responsables", "dueño"],
+  assignedTo: ["asignado a", "asignada a", "asignar a"],
+  ownerWill: ["va a", "van a", "se encarga de", "se encargan de", "debe", "deben", "tiene que", "tienen que"],
+  nameJoiners: ["y", "e"],
+  selfOwner: ["voy a", "me encargo", "yo me encargo"],
+  teamOwner: ["vamos a", "nos encargamos"],
+  vaguePhrases: ["investigar", "ver con", "ver cómo", "echar un vistazo", "ponerse en contacto"],
+  stopwords: ["el", "la", "los", "las", "y", "que", "para", "con", "por", "una", "del", "se"],
+  dates: {
+    weekdays: {
+      domingo: 0,
+      lunes: 1,
+      martes: 2,
+      miércoles: 3,
+      miercoles: 3,
+      jueves: 4,
+      viernes: 5,
+      sábado: 6,
+      sabado: 6,
+    },
+    months: {
+      enero: 0,
+      febrero: 1,
+      marzo: 2,
+      abril: 3,
+      mayo: 4,
+      junio: 5,
+      julio: 6,
+      agosto: 7,
+      septiembre: 8,
+      setiembre: 8,
+      octubre: 9,
+      noviembre: 10,
+      diciembre: 11,
+    },
+    numberWords: {
+      un: 1,
+      una: 1,
+      uno: 1,
+      dos: 2,
+      tres: 3,
+      cuatro: 4,
+      cinco: 5,
+      seis: 6,
+      siete: 7,
+      ocho: 8,
+      nueve: 9,
+      diez: 10,
+      once: 11,
+      doce: 12,
+    },
+    today: ["hoy", "fin del día", "final del día", "esta noche"],
+    tomorrow: ["mañana", "manana"],
+    dayAfterTomorrow: ["pasado mañana", "pasado manana"],
+    nextWeekdayBefore: ["el próximo", "el proximo", "próximo", "proximo"],
+    nextWeekdayAfter: ["que viene", "próximo", "proximo"],
+    thisWeekday: ["este", "el"],
+    inUnitsPrefix: ["en", "dentro de"],
+    dayUnits: ["día", "días", "dia", "dias"],
+    weekUnits: ["semana", "semanas"],
+    monthUnits: ["mes", "meses"],
+    endOfWeek: ["fin de la semana", "final de la semana", "esta semana"],
+    nextWeek: ["la próxima semana", "la proxima semana", "próxima semana", "proxima semana", "la semana que viene"],
+    nextMonth: ["el próximo mes", "el proximo mes", "el mes que viene", "próximo mes", "proximo mes"],
+    endOfMonth: ["fin de mes", "final de mes", "fin del mes", "final del mes"],
+    endOfQuarter: ["fin de trimestre", "fin del trimestre"],
+    endOfYear: ["fin de año", "fin del año", "final de año"],
+    dayMonthJoiners: ["de"],
+    unresolvable: ["pronto", "lo antes posible", "más adelante", "mas adelante", "asap", "por definir"],
+    dateContext: ["para", "el", "antes del", "hasta el", "hasta", "vence"],
+    ambiguousWeekdays: [],
+    dayFirst: true,
+    numericSeparators: "/",
+  },
+};
+
+/* -------------------- French -------------------- */
+
+const FR: Lexicon = {
+  locale: "fr",
+  phraseVerbs: ["faire un suivi", "faire le suivi", "mettre à jour", "prendre contact", "relancer"],
+  verbs: [
+    "envoyer",
+    "enverra",
+    "partager",
+    "partagera",
+    "planifier",
+    "planifiera",
+    "programmer",
+    "programmera",
+    "réserver",
+    "réservera",
+    "confirmer",
+    "confirmera",
+    "vérifier",
+    "vérifiera",
+    "revoir",
+    "reverra",
+    "corriger",
+    "corrigera",
+    "créer",
+    "créera",
+    "livrer",
+    "livrera",
+    "appeler",
+    "appellera",
+    "contacter",
+    "contactera",
+    "préparer",
+    "préparera",
+    "rédiger",
+    "rédigera",
+    "écrire",
+    "écrira",
+  ],
+  ownerTags: ["responsable", "responsables", "porteur"],
+  assignedTo: ["assigné à", "assignée à", "attribué à", "attribuée à"],
+  ownerWill: [
+    "va",
+    "vont",
+    "doit",
+    "doivent",
+    "s'occupe de",
+    "s'occupent de",
+    "se charge de",
+    "se chargent de",
+  ],
+  nameJoiners: ["et"],
+  selfOwner: ["je vais", "je m'occupe", "je me charge"],
+  teamOwner: ["nous allons", "on va", "on s'occupe"],
+  vaguePhrases: ["se pencher sur", "regarder", "voir avec", "faire le point", "creuser"],
+  stopwords: ["le", "la", "les", "et", "des", "pour", "avec", "que", "est", "une", "du", "sur"],
+  dates: {
+    weekdays: {
+      dimanche: 0,
+      lundi: 1,
+      mardi: 2,
+      mercredi: 3,
+      jeudi: 4,
+      vendredi: 5,
+      samedi: 6,
+    },
+    months: {
+      janvier: 0,
+      février: 1,
+      fevrier: 1,
+      mars: 2,
+      avril: 3,
+      mai: 4,
+      juin: 5,
+      juillet: 6,
+      août: 7,
+      aout: 7,
+      septembre: 8,
+      octobre: 9,
+      novembre: 10,
+      décembre: 11,
+      decembre: 11,
+    },
+    numberWords: {
+      un: 1,
+      une: 1,
+      deux: 2,
+      trois: 3,
+      quatre: 4,
+      cinq: 5,
+      six: 6,
+      sept: 7,
+      huit: 8,
+      neuf: 9,
+      dix: 10,
+      onze: 11,
+      douze: 12,
+    },
+    today: ["aujourd'hui", "ce soir", "fin de journée", "fin de la journée"],
+    tomorrow: ["demain"],
+    dayAfterTomorrow: ["après-demain", "apres-demain"],
+    nextWeekdayBefore: [],
+    nextWeekdayAfter: ["prochain"],
+    thisWeekday: ["ce"],
+    inUnitsPrefix: ["dans", "d'ici"],
+    dayUnits: ["jour", "jours"],
+    weekUnits: ["semaine", "semaines"],
+    monthUnits: ["mois"],
+    endOfWeek: ["fin de semaine", "fin de la semaine", "cette semaine"],
+    nextWeek: ["la semaine prochaine", "semaine prochaine"],
+    nextMonth: ["le mois prochain", "mois prochain"],
+    endOfMonth: ["fin du mois", "fin de mois"],
+    endOfQuarter: ["fin du trimestre", "fin de trimestre"],
+    endOfYear: ["fin d'année", "fin de l'année", "fin d'annee"],
+    dayMonthJoiners: [],
+    unresolvable: ["bientôt", "bientot", "dès que possible", "des que possible", "plus tard", "asap", "à définir"],
+    dateContext: ["pour le", "le", "avant le", "d'ici le", "jusqu'au", "au plus tard le"],
+    ambiguousWeekdays: [],
+    dayFirst: true,
+    numericSeparators: "/",
+  },
+};
+
+/* -------------------- German -------------------- */
+
+const DE: Lexicon = {
+  locale: "de",
+  phraseVerbs: ["nachfassen", "in kontakt treten", "melden bei", "auf den neuesten stand bringen"],
+  verbs: [
+    "senden",
+    "sendet",
+    "schicken",
+    "schickt",
+    "teilen",
+    "teilt",
+    "planen",
+    "plant",
+    "terminieren",
+    "buchen",
+    "bucht",
+    "bestätigen",
+    "bestätigt",
+    "prüfen",
+    "prüft",
+    "überprüfen",
+    "aktualisieren",
+    "aktualisiert",
+    "beheben",
+    "behebt",
+    "erstellen",
+    "erstellt",
+    "liefern",
+    "liefert",
+    "anrufen",
+    "ruft",
+    "kontaktieren",
+    "kontaktiert",
+    "vorbereiten",
+    "bereitet",
+    "schreiben",
+    "schreibt",
+  ],
+  ownerTags: ["verantwortlich", "zuständig", "owner"],
+  assignedTo: ["zugewiesen an", "zugeordnet an"],
+  ownerWill: ["wird", "werden", "soll", "sollen", "kümmert sich", "kümmern sich", "übernimmt", "übernehmen"],
+  nameJoiners: ["und"],
+  selfOwner: ["ich werde", "ich kümmere mich", "ich übernehme"],
+  teamOwner: ["wir werden", "wir kümmern uns", "wir übernehmen"],
+  vaguePhrases: ["anschauen", "sich ansehen", "klären", "abstimmen", "mal schauen"],
+  stopwords: ["der", "die", "das", "und", "mit", "für", "ist", "wird", "nicht", "den", "ein", "zu"],
+  dates: {
+    weekdays: {
+      sonntag: 0,
+      montag: 1,
+      dienstag: 2,
+      mittwoch: 3,
+      donnerstag: 4,
+      freitag: 5,
+      samstag: 6,
+      sonnabend: 6,
+    },
+    months: {
+      januar: 0,
+      jänner: 0,
+      februar: 1,
+      märz: 2,
+      maerz: 2,
+      april: 3,
+      mai: 4,
+      juni: 5,
+      juli: 6,
+      august: 7,
+      september: 8,
+      oktober: 9,
+      november: 10,
+      dezember: 11,
+    },
+    numberWords: {
+      ein: 1,
+      eine: 1,
+      einem: 1,
+      einer: 1,
+      zwei: 2,
+      drei: 3,
+      vier: 4,
+      fünf: 5,
+      sechs: 6,
+      sieben: 7,
+      acht: 8,
+      neun: 9,
+      zehn: 10,
+      elf: 11,
+      zwölf: 12,
+    },
+    today: ["heute", "heute abend", "feierabend"],
+    tomorrow: ["morgen"],
+    dayAfterTomorrow: ["übermorgen"],
+    nextWeekdayBefore: ["nächsten", "nächster", "kommenden", "kommender"],
+    nextWeekdayAfter: [],
+    thisWeekday: ["diesen", "am"],
+    inUnitsPrefix: ["in"],
+    dayUnits: ["tag", "tagen", "tage"],
+    weekUnits: ["woche", "wochen"],
+    monthUnits: ["monat", "monaten"],
+    endOfWeek: ["ende der woche", "diese woche"],
+    nextWeek: ["nächste woche", "nächster woche", "kommende woche"],
+    nextMonth: ["nächsten monat", "nächster monat", "kommenden monat"],
+    endOfMonth: ["ende des monats", "monatsende", "ende monat"],
+    endOfQuarter: ["ende des quartals", "quartalsende"],
+    endOfYear: ["ende des jahres", "jahresende"],
+    dayMonthJoiners: [],
+    unresolvable: ["bald", "so schnell wie möglich", "später", "asap", "tbd"],
+    dateContext: ["bis", "bis zum", "am", "vor dem", "fällig"],
+    ambiguousWeekdays: [],
+    dayFirst: true,
+    numericSeparators: "./",
+  },
+};
+
+const LEXICONS: Record<RecapLocale, Lexicon> = { en: EN, es: ES, fr: FR, de: DE };
+
+export function getLexicon(locale?: RecapLocale): Lexicon {
+  return LEXICONS[locale ?? "en"] ?? EN;
+}
+
+export function asLocalePreference(x: unknown): LocalePreference {
+  return x === "auto" || RECAP_LOCALES.includes(x as RecapLocale) ? (x as LocalePreference) : "auto";
+}
+
+/**
+ * Guess the notes' language from function-word frequency. Ties (and empty notes) go to English.
+ */
+export function detectLocale(text: string): RecapLocale {
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  const counts: Record<RecapLocale, number> = { en: 0, es: 0, fr: 0, de: 0 };
+
+  for (const w of words) {
+    for (const locale of RECAP_LOCALES) {
+      if (LEXICONS[locale].stopwords.includes(w)) counts[locale]++;
+    }
+  }
+
+  let best: RecapLocale = "en";
+  for (const locale of RECAP_LOCALES) {
+    if (counts[locale] > counts[best]) best = locale;
+  }
+  return best;
+}
+
+export function resolveLocale(pref: LocalePreference | undefined, text: string): RecapLocale {
+  return !pref || pref === "auto" ? detectLocale(text) : pref;
+}
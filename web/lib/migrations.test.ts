@@ -0,0 +1,110 @@
+// web/lib/migrations.test.ts
+// Each migration step on its own, the whole chain from an unversioned record, and records
+// written by a newer build (left alone).
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MIGRATIONS, MigrationError, SCHEMA_VERSION, migrateRecord } from "@/lib/migrations";
+import { normalizeFolder, normalizeSession } from "@/lib/sessionStore";
+
+function step(version: number) {
+  const found = MIGRATIONS.find((m) => m.version === version)?.session;
+  assert.ok(found, `no session step for v${version}`);
+  return found;
+}
+
+/* -------------------- steps -------------------- */
+
+test('v1: mode "future" becomes "followUp" and `followUp` moves into `followUps[]`', () => {
+  const legacy = { id: "fu1", status: "open", meetingResult: "Won", meetingOutcome: "Signed" };
+  const out = step(1)({ id: "s1", mode: "future", followUp: legacy, followUps: [{ id: "fu0" }] });
+
+  assert.equal(out.mode, "followUp");
+  assert.deepEqual(out.followUps, [{ id: "fu0" }, legacy]);
+  assert.equal("followUp" in out, false);
+  // Result/outcome belong to the past meeting now
+  assert.deepEqual(out.pastMeta, { meetingResult: "Won", meetingOutcome: "Signed" });
+});
+
+test("v1: keeps an existing pastMeta and leaves other modes alone", () => {
+  const pastMeta = { meetingResult: "Lost", meetingOutcome: "" };
+  const out = step(1)({ id: "s1", mode: "past", pastMeta, followUp: { id: "fu1", meetingResult: "Won" } });
+
+  assert.equal(out.mode, "past");
+  assert.deepEqual(out.pastMeta, pastMeta);
+});
+
+test("v1: a session without a follow-up gets no followUps or pastMeta", () => {
+  const out = step(1)({ id: "s1", mode: "current" });
+  assert.equal(out.followUps, undefined);
+  assert.equal(out.pastMeta, undefined);
+});
+
+test('v2: checkpoint reason "pause" becomes "manual" and `createdAt` becomes `timestamp`', () => {
+  const out = step(2)({
+    id: "s1",
+    checkpoints: [
+      { reason: "pause", createdAt: 100 },
+      { reason: "generate", timestamp: 200, createdAt: 150 },
+    ],
+    redoStack: [{ reason: "pause", createdAt: 300 }],
+  });
+
+  assert.deepEqual(out.checkpoints, [
+    { reason: "manual", timestamp: 100 },
+    { reason: "generate", timestamp: 200 },
+  ]);
+  assert.deepEqual(out.redoStack, [{ reason: "manual", timestamp: 300 }]);
+});
+
+test('v3: "followUp" sessions become "past"', () => {
+  assert.equal(step(3)({ id: "s1", mode: "followUp" }).mode, "past");
+  assert.equal(step(3)({ id: "s2", mode: "current" }).mode, "current");
+});
+
+/* -------------------- chain -------------------- */
+
+test("an unversioned session runs every step up to SCHEMA_VERSION", () => {
+  const out = migrateRecord("session", {
+    id: "s1",
+    mode: "future",
+    followUp: { id: "fu1", meetingResult: "Won" },
+    checkpoints: [{ reason: "pause", createdAt: 100 }],
+  });
+
+  assert.equal(out.schemaVersion, SCHEMA_VERSION);
+  assert.equal(out.mode, "past");
+  assert.deepEqual(out.followUps, [{ id: "fu1", meetingResult: "Won" }]);
+  assert.deepEqual(out.pastMeta, { meetingResult: "Won", meetingOutcome: "" });
+  assert.deepEqual(out.checkpoints, [{ reason: "manual", timestamp: 100 }]);
+});
+
+test("steps at or below the record's version are skipped", () => {
+  // A v2 "followUp" session only needs v3; v1 would not touch it anyway, v2 must not rerun
+  const out = migrateRecord("session", { id: "s1", schemaVersion: 2, mode: "followUp", checkpoints: [{ createdAt: 5 }] });
+  assert.equal(out.mode, "past");
+  assert.deepEqual(out.checkpoints, [{ createdAt: 5 }]);
+});
+
+test("folders without steps are still stamped with SCHEMA_VERSION", () => {
+  assert.equal(migrateRecord("folder", { id: "f1", name: "Clients" }).schemaVersion, SCHEMA_VERSION);
+  assert.equal(normalizeFolder({ id: "f1", name: "Clients" }).schemaVersion, SCHEMA_VERSION);
+});
+
+test("a record that isn't an object throws MigrationError", () => {
+  assert.throws(() => migrateRecord("session", 42), MigrationError);
+  assert.throws(() => normalizeSession(null), MigrationError);
+});
+
+/* -------------------- newer builds -------------------- */
+
+test("a record from a newer build passes through unchanged", () => {
+  const newer = { id: "s1", schemaVersion: SCHEMA_VERSION + 1, mode: "future", followUp: { id: "fu1" } };
+  assert.deepEqual(migrateRecord("session", newer), newer);
+});
+
+test("normalizing a newer record keeps its schemaVersion", () => {
+  const version = SCHEMA_VERSION + 1;
+  assert.equal(normalizeSession({ id: "s1", schemaVersion: version }).schemaVersion, version);
+  assert.equal(normalizeFolder({ id: "f1", schemaVersion: version }).schemaVersion, version);
+});
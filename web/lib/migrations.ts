@@ -0,0 +1,117 @@
+// web/lib/migrations.ts
+// Schema versions for persisted sessions and folders (localStorage and the server store).
+// Every record carries `schemaVersion`; records without one are version 0. Loading runs the
+// steps after the record's version, in order, then lib/sessionStore.ts normalizes the result.
+// Add new steps at the end; never edit one that has shipped. Client-safe.
+
+export type StoredKind = "session" | "folder";
+
+type RawRecord = Record<string, unknown>;
+
+export type Migration = {
+  version: number; // schemaVersion after this step
+  description: string;
+  session?: (s: RawRecord) => RawRecord;
+  folder?: (f: RawRecord) => RawRecord;
+};
+
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly version: number, // step that failed (0 = record unreadable)
+    public readonly recordId?: string
+  ) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+function asObject(x: unknown): RawRecord | null {
+  return x && typeof x === "object" && !Array.isArray(x) ? (x as RawRecord) : null;
+}
+
+/* -------------------- steps -------------------- */
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Mode "future" becomes "followUp"; the single `followUp` object moves into `followUps[]`',
+    session: (s) => {
+      const legacy = asObject(s.followUp);
+      const followUps = [...(Array.isArray(s.followUps) ? s.followUps : []), ...(legacy ? [legacy] : [])];
+
+      // Meeting result/outcome used to live on the follow-up; they belong to the past meeting
+      const pastMeta =
+        s.pastMeta ??
+        (legacy && (legacy.meetingResult || legacy.meetingOutcome)
+          ? { meetingResult: legacy.meetingResult ?? "Pending", meetingOutcome: legacy.meetingOutcome ?? "" }
+          : undefined);
+
+      const next: RawRecord = {
+        ...s,
+        mode: s.mode === "future" ? "followUp" : s.mode,
+        followUps: followUps.length ? followUps : undefined,
+        pastMeta,
+      };
+      delete next.followUp;
+      return next;
+    },
+  },
+  {
+    version: 2,
+    description: 'Checkpoint reason "pause" becomes "manual"; checkpoint `createdAt` becomes `timestamp`',
+    session: (s) => {
+      const fix = (list: unknown) =>
+        Array.isArray(list)
+          ? list.map((raw) => {
+              const cp = asObject(raw) ?? {};
+              const next: RawRecord = {
+                ...cp,
+                reason: cp.reason === "pause" ? "manual" : cp.reason,
+                timestamp: cp.timestamp ?? cp.createdAt,
+              };
+              delete next.createdAt;
+              return next;
+            })
+          : list;
+      return { ...s, checkpoints: fix(s.checkpoints), redoStack: fix(s.redoStack) };
+    },
+  },
+  {
+    version: 3,
+    description: 'Mode "followUp" sessions become "past" (follow-ups live on the past meeting)',
+    session: (s) => (s.mode === "followUp" ? { ...s, mode: "past" } : s),
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/* -------------------- running -------------------- */
+
+export function schemaVersionOf(raw: unknown): number {
+  const v = asObject(raw)?.schemaVersion;
+  return typeof v === "number" && Number.isInteger(v) && v >= 0 ? v : 0;
+}
+
+/**
+ * Bring one stored record up to SCHEMA_VERSION. Records from a newer build are returned as is.
+ * Throws MigrationError when the record isn't an object or a step throws.
+ */
+export function migrateRecord(kind: StoredKind, raw: unknown): RawRecord {
+  const record = asObject(raw);
+  if (!record) throw new MigrationError(`Stored ${kind} is not an object`, 0);
+
+  const id = typeof record.id === "string" ? record.id : undefined;
+  let current = record;
+  for (const step of MIGRATIONS) {
+    if (step.version <= schemaVersionOf(current)) continue;
+    const up = kind === "session" ? step.session : step.folder;
+    try {
+      current = { ...(up ? up(current) : current), schemaVersion: step.version };
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new MigrationError(`Migrating ${kind} ${id ?? "(no id)"} to v${step.version} failed: ${reason}`, step.version, id);
+    }
+  }
+  return current;
+}
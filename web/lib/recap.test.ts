@@ -0,0 +1,30 @@
+// web/lib/recap.test.ts
+// Owners from "owner:" and "assigned to": the capitalized names right after the tag, never the
+// task that follows them.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseActionItems } from "@/lib/recap";
+
+function owner(line: string, roster = [{ name: "Sam Ortiz", aliases: ["sammy"] }]) {
+  return parseActionItems([line], { roster })[0]?.owner;
+}
+
+test('"assigned to" stops at "to" and the verb after the name', () => {
+  assert.equal(owner("Prep the budget, assigned to Mike to review budget"), "Mike");
+});
+
+test('"Owner:" stops at " - "', () => {
+  assert.equal(owner("Owner: Marco - fix the login timeout bug by 3/10"), "Marco");
+  assert.equal(owner("Owners: Logan & Priya - send the deck"), "Logan, Priya");
+});
+
+test("full names and joiners are kept, a capitalized verb is not a name", () => {
+  assert.equal(owner("Owner: Jackie Martin and Mike, update roadmap"), "Jackie Martin, Mike");
+  assert.equal(owner("Owner: Marco Fix the login bug"), "Marco");
+});
+
+test("a lowercase first piece is only an owner when the roster knows it", () => {
+  assert.equal(owner("Follow up with finance on open invoices, owner: sammy"), "Sam Ortiz");
+  assert.equal(owner("Send the notes, owner: review team"), undefined);
+});
@@ -1,20 +1,62 @@
 // web/lib/recap.ts
 // Deterministic, local-only recap helpers (Phase 1).
-// Summary + Action Items are generated via /api/generate using these functions.
+// Summary + Action Items (and the Task A NormalizerJson) are generated via /api/generate using these functions.
 // Follow-Up email drafts are generated via /api/follow-up using makeFollowUpEmailDraftFromHighlights.
 
 import type { EmailType, EmailTone } from "./types";
+import type { NormalizerJson } from "./ai/tasks";
+import { findDueDate, type DueDateContext } from "./dueDates";
+import { findAttendee, isSelfOwner, resolveOwner, type Attendee } from "./roster";
+import {
+  containsPhrase,
+  getLexicon,
+  phraseAlternation,
+  WORD_END,
+  WORD_START,
+  type RecapLocale,
+} from "./lexicons";
+import { compileOwnerPatterns, withExtractionRules, type ExtractionRules } from "./extractionRules";
 
 export type ActionItem = {
+  id: string; // stable across regenerations of the same notes
   text: string; // the action itself (cleaned)
-  owner?: string; // best guess
-  due?: string; // best guess
+  owner?: string; // best guess (several owners are joined with ", ")
+  owners?: string[]; // each owner, resolved to the roster name when known
+  due?: string; // the due phrase as written ("next Tuesday", "3/14", ...)
+  dueDate?: string; // YYYY-MM-DD resolved from `due` against the meeting date
   notes?: string; // extra instruction like "contact Jackie when done"
+  subtasks?: string[]; // nested action lines under this item
+  done?: boolean; // set for markdown checkbox tasks: "- [x]" = true, "- [ ]" = false
+  section?: NoteSection; // where in the merged notes the item was found
+  sources?: ActionItemSources; // set on items merged from duplicates: which section each field came from
+  sourceSpans?: SourceSpan[]; // the note line(s) the item was read from; merged duplicates keep every mention
+};
+
+/** Parts of the merged notes (see buildMergedNotes). */
+export type NoteSection = "raw" | "postMeeting" | "outcome";
+
+export type ActionItemSources = Partial<Record<"text" | "owner" | "due" | "notes", NoteSection>>;
+
+/** A line of the merged notes: 1-based line number + character offsets [start, end) of its text. */
+export type SourceSpan = {
+  line: number;
+  start: number;
+  end: number;
+  section?: NoteSection;
 };
 
 export type ActionIssue = {
-  type: "missingOwner" | "missingDueDate" | "vague";
+  type: "missingOwner" | "unknownOwner" | "missingDueDate" | "unresolvedDueDate" | "vague" | "ungrounded";
   message: string;
+  itemId?: string; // the ActionItem this check refers to
+};
+
+/**
+ * Structured form returned by /api/generate next to the rendered actionItems string,
+ * so the UI (and scripts) can render, sort and edit items without re-parsing text.
+ */
+export type StructuredActionItem = ActionItem & {
+  issues: ActionIssue[];
 };
 
 export type MakeEmailDraftOptions = {
@@ -38,121 +80,278 @@ export type MakeEmailDraftOptions = {
   maxBullets?: number;
 };
 
-function normalizeLines(raw: string): string[] {
-  return raw
-    .split("\n")
-    .map((l) => l.trim())
-    .filter(Boolean);
-}
-
 function safeString(x: any): string {
   return typeof x === "string" ? x : String(x ?? "");
 }
 
-function escapeRegExp(s: string) {
-  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+/**
+ * FNV-1a 32-bit hash, rendered as 8 hex chars. Deterministic on both server and client.
+ */
+function hashString(s: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
 }
 
-function includesWord(haystackLower: string, wordLower: string): boolean {
-  // exact word boundary match (prevents "call" matching "callback", etc.)
-  const re = new RegExp(`\\b${escapeRegExp(wordLower)}\\b`, "i");
-  return re.test(haystackLower);
+/**
+ * Stable id for an action item: same text (ignoring case/spacing) => same id.
+ * `occurrence` disambiguates identical lines within one set of notes.
+ */
+export function makeActionItemId(text: string, occurrence = 0): string {
+  const key = text.toLowerCase().replace(/\s+/g, " ").trim();
+  return `ai_${hashString(occurrence ? `${key}#${occurrence}` : key)}`;
 }
 
-export function parseBullets(rawNotes: string): string[] {
-  const lines = normalizeLines(rawNotes);
+/**
+ * One parsed line of notes. Indented bullets become children of the line above them,
+ * so "topic + details" and "action + sub-steps" survive parsing.
+ */
+export type BulletNode = {
+  text: string; // list marker stripped
+  depth: number; // 0 = top level
+  children: BulletNode[];
+  checked?: boolean; // markdown checkbox state ("- [x]" / "- [ ]"); undefined for plain lines
+  span?: SourceSpan; // where the line sits in the parsed text (no section: parseActionItems knows that)
+};
+
+/** Anything that accepts bullets takes either the flat list or the tree. */
+export type BulletInput = string[] | BulletNode[];
+
+/**
+ * Raw notes + post-meeting notes + outcome as one text, the way /api/generate parses it.
+ * Action-item source spans are offsets into this text (the session UI rebuilds it to show them).
+ */
+export function buildMergedNotes(params: {
+  rawNotes: string;
+  postMeetingNotes: string;
+  meetingOutcome: string;
+}) {
+  const raw = params.rawNotes.trim();
+  const post = params.postMeetingNotes.trim();
+  const outcome = params.meetingOutcome.trim();
+
+  const parts: string[] = [];
 
-  const cleaned: string[] = [];
-  let currentSection: "main" | "post" = "main";
+  if (raw) parts.push(raw);
+
+  if (post) {
+    parts.push("", "## Post-Meeting Notes", post);
+  }
+
+  // IMPORTANT: This is what makes “Incorporate Into Outputs” actually change the results.
+  if (outcome) {
+    parts.push("", "## Meeting Outcome", outcome);
+  }
+
+  return parts.join("\n");
+}
+
+const POST_MEETING_SENTINEL = "___POST_MEETING_SECTION___";
+
+function measureIndent(line: string): number {
+  const lead = line.match(/^[ \t]*/)?.[0] ?? "";
+  // Tabs count as one nesting level in most editors (= 4 columns)
+  return lead.replace(/\t/g, "    ").length;
+}
+
+export function parseBulletTree(rawNotes: string): BulletNode[] {
+  const roots: BulletNode[] = [];
+  // Open ancestors: the nearest line with a smaller indent is the parent
+  const stack: { indent: number; node: BulletNode }[] = [];
+
+  const lines = rawNotes.split("\n");
+  let offset = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i];
+    const lineStart = offset;
+    offset += raw.length + 1;
 
-  for (const raw of lines) {
     const trimmed = raw.trim();
     if (!trimmed) continue;
+    const span: SourceSpan = {
+      line: i + 1,
+      start: lineStart + (raw.length - raw.trimStart().length),
+      end: lineStart + raw.trimEnd().length,
+    };
 
     // Detect post-meeting heading explicitly
     if (/^##\s*post[- ]?meeting/i.test(trimmed)) {
-      currentSection = "post";
-      cleaned.push("___POST_MEETING_SECTION___");
+      roots.push({ text: POST_MEETING_SENTINEL, depth: 0, children: [] });
+      stack.length = 0;
       continue;
     }
 
-    const line = trimmed.replace(/^(\*|-|\d+[.)])\s+/, "").trim();
+    // Headings are always top level and close any open nesting
+    if (/^#{1,6}\s+/.test(trimmed)) {
+      roots.push({ text: trimmed, depth: 0, children: [] });
+      stack.length = 0;
+      continue;
+    }
+
+    const unmarked = trimmed.replace(/^(\*|-|\d+[.)])\s+/, "").trim();
+
+    // "- [ ] send deck" / "- [x] book room"
+    const checkbox = unmarked.match(/^\[([ xX])\]\s*/);
+    const line = checkbox ? unmarked.slice(checkbox[0].length).trim() : unmarked;
     if (!line) continue;
 
-    cleaned.push(line);
+    const indent = measureIndent(raw);
+    while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop();
+
+    const parent = stack.length ? stack[stack.length - 1].node : null;
+    const node: BulletNode = { text: line, depth: parent ? parent.depth + 1 : 0, children: [], span };
+    if (checkbox) node.checked = checkbox[1] !== " ";
+
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+
+    stack.push({ indent, node });
   }
 
-  return cleaned;
+  return roots;
 }
 
-// Very simple placeholder extraction: find lines that look like actions
-export function parseActionItems(bullets: string[]): ActionItem[] {
-  // Phrase-based verbs can use includes; single-word verbs should use word boundaries.
-  const filtered = bullets.filter(
-  (b) => b !== "___POST_MEETING_SECTION___" && !/^#{1,6}\s+/.test(b)
-);
-  const phraseVerbs = ["follow up", "touch base"]; // keep as phrases
-  const singleWordVerbs = [
-    "send",
-    "share",
-    "schedule",
-    "book",
-    "confirm",
-    "review",
-    "update",
-    "fix",
-    "create",
-    "ship",
-    "deliver",
-    "email",
-    "call",
-    "contact",
-  ];
-
-  function extractDue(text: string): string | undefined {
-    const lower = text.toLowerCase();
+/** Depth-first (document order) list of node texts. */
+export function flattenBullets(nodes: BulletNode[]): string[] {
+  const out: string[] = [];
+  const walk = (list: BulletNode[]) => {
+    for (const n of list) {
+      out.push(n.text);
+      walk(n.children);
+    }
+  };
+  walk(nodes);
+  return out;
+}
 
-    // explicit ISO date
-    const iso = text.match(/\b\d{4}-\d{2}-\d{2}\b/);
-    if (iso) return iso[0];
+function toBulletNodes(input: BulletInput): BulletNode[] {
+  return input.map((b) => (typeof b === "string" ? { text: b, depth: 0, children: [] } : b));
+}
 
-    // simple relative tokens
-    const dueTokens = ["today", "tomorrow", "this week", "next week", "end of day", "eod", "eow"];
-    for (const t of dueTokens) {
-      if (lower.includes(t)) return t;
-    }
+/**
+ * Flat list of cleaned lines (nesting dropped). Kept for callers that don't need the tree.
+ */
+export function parseBullets(rawNotes: string): string[] {
+  return flattenBullets(parseBulletTree(rawNotes));
+}
 
-    // weekday mention
-    const weekday = text.match(/\b(mon|tue|wed|thu|fri|sat|sun)(day)?\b/i);
-    if (weekday) return weekday[0];
+export type ParseActionItemsOptions = {
+  /**
+   * Meeting date + user time zone used to resolve relative due dates ("tomorrow", "next Tuesday").
+   */
+  dueDates?: DueDateContext;
 
-    return undefined;
+  /**
+   * Session attendees. Owners are mapped to roster names ("@jmartin" -> "Jackie Martin").
+   */
+  roster?: Attendee[];
+
+  /**
+   * Language of the notes (verbs, owner phrasing, dates). Defaults to English.
+   */
+  locale?: RecapLocale;
+
+  /**
+   * Folder-level extraction rules (extra verbs, ignored phrases, owner patterns), applied on top of the lexicon.
+   */
+  rules?: ExtractionRules;
+};
+
+// Very simple placeholder extraction: find lines that look like actions
+export function parseActionItems(bullets: BulletInput, opts?: ParseActionItemsOptions): ActionItem[] {
+  const lex = withExtractionRules(getLexicon(opts?.locale), opts?.rules);
+  const ignoredPhrases = opts?.rules?.ignoredPhrases ?? [];
+
+  const joiners = `,|&|\\+|${WORD_START}(?:${phraseAlternation(lex.nameJoiners)})${WORD_END}`;
+  const name = "\\p{Lu}[\\p{L}'.-]{1,20}";
+  // "Jackie Martin and Mike": capitalized words only, so the list ends at " - ", "to", "by", ...
+  const person = `${name}(?:\\s+${name})*`;
+  const verbs = new Set(lex.verbs.map((v) => v.toLowerCase()));
+
+  // The tag itself is case-insensitive; the names after it are checked by nameListRe
+  const ownerTagRe = new RegExp(`${WORD_START}(?:${phraseAlternation(lex.ownerTags)})\\s*:\\s*(.*)$`, "iu");
+  const assignedRe = new RegExp(`${WORD_START}(?:${phraseAlternation(lex.assignedTo)})\\s+(.*)$`, "iu");
+  const nameListRe = new RegExp(`^${person}(?:\\s*(?:${joiners})\\s*${person})*${WORD_END}`, "u");
+  // Names must be capitalized, so this one is case-sensitive
+  const willRe = new RegExp(
+    `^(${name}(?:\\s*(?:${joiners})\\s*${name})*)\\s+(?:${phraseAlternation(lex.ownerWill)})${WORD_END}`,
+    "u"
+  );
+
+  // Folder patterns like "DRI: {owner}" are tried before the built-in phrasing
+  const customOwnerRes = compileOwnerPatterns(
+    opts?.rules?.ownerPatterns ?? [],
+    `${name}(?:\\s*(?:${joiners})\\s*${name})*`
+  );
+
+  function splitNames(list: string): string[] {
+    return (
+      list
+        .split(new RegExp(`\\s*(?:${joiners})\\s*`, "iu"))
+        // A capitalized verb ends the name ("Owner: Marco Fix the login bug")
+        .map((n) => {
+          const words = n.trim().split(/\s+/);
+          const verb = words.findIndex((w) => verbs.has(w.toLowerCase()));
+          return (verb < 0 ? words : words.slice(0, verb)).join(" ");
+        })
+        // Only capitalized pieces are names ("owner: Jackie, update roadmap")
+        .filter((n) => /^\p{Lu}/u.test(n))
+    );
   }
 
-  function extractOwner(text: string): string | undefined {
-    // @name
-    const at = text.match(/@([a-zA-Z0-9_]+)/);
-    if (at) return at[1];
+  // Names at the start of a tag capture ("Marco - fix the login bug" -> Marco)
+  function leadingNames(rest: string): string[] {
+    const list = rest.match(nameListRe);
+    if (list) return splitNames(list[0]);
+    // A lowercase name written without "@" ("owner: sammy") only counts when the roster knows it
+    const word = rest.match(/^[\p{L}\p{N}_.-]+/u)?.[0].replace(/[.-]+$/, "");
+    return word && findAttendee(word, opts?.roster ?? []) ? [word] : [];
+  }
 
-    const lower = text.toLowerCase();
+  // Raw owner names as written; resolved against the roster below.
+  function extractOwners(text: string): string[] {
+    // @name (several handles => several owners); skip the "@" inside email addresses
+    const handles = Array.from(text.matchAll(/(?:^|[^\w.])@([a-zA-Z0-9_][a-zA-Z0-9_.-]*)/g)).map((m) =>
+      m[1].replace(/[.-]+$/, "")
+    );
+    if (handles.length) return handles;
+
+    for (const re of customOwnerRes) {
+      const custom = text.match(re);
+      const names = custom ? splitNames(custom[1]) : [];
+      if (names.length) return names;
+    }
 
-    // "owner: Logan"
-    const ownerTag = text.match(/\bowner:\s*([a-zA-Z][a-zA-Z\s'.-]{1,40})/i);
-    if (ownerTag) return ownerTag[1].trim();
+    // "owner: Logan" / "owners: Logan and Mike" / "responsable: Ana"
+    const ownerTag = text.match(ownerTagRe);
+    const tagged = ownerTag ? leadingNames(ownerTag[1]) : [];
+    if (tagged.length) return tagged;
 
-    // "assigned to Mike"
-    const assigned = text.match(/\bassigned to\s*([a-zA-Z][a-zA-Z\s'.-]{1,40})/i);
-    if (assigned) return assigned[1].trim();
+    // "assigned to Mike" / "asignado a Ana"
+    const assigned = text.match(assignedRe);
+    const assignee = assigned ? leadingNames(assigned[1]) : [];
+    if (assignee.length) return assignee;
 
-    // "Logan will ..."
-    const will = text.match(/^([A-Z][a-zA-Z'.-]{1,20})\s+will\b/);
-    if (will) return will[1].trim();
+    // "Logan will ..." / "Logan and Mike will ..." / "Ana y Luis van a ..."
+    const will = text.match(willRe);
+    if (will) return splitNames(will[1]);
 
     // fallback: "I will" / "We will" (word-boundary-ish)
-    if (/\bi will\b/i.test(lower)) return "Me";
-    if (/\bwe will\b/i.test(lower)) return "We";
+    if (containsPhrase(text, lex.selfOwner)) return ["Me"];
+    if (containsPhrase(text, lex.teamOwner)) return ["We"];
 
-    return undefined;
+    return [];
+  }
+
+  function resolveOwners(text: string): string[] {
+    const roster = opts?.roster ?? [];
+    const names = extractOwners(text).map((n) => resolveOwner(n, roster).name);
+    // "Jackie and @jmartin" are the same person once resolved
+    return names.filter((n, i) => names.findIndex((x) => x.toLowerCase() === n.toLowerCase()) === i);
   }
 
   function extractNotes(original: string): string | undefined {
@@ -171,29 +370,294 @@ export function parseActionItems(bullets: string[]): ActionItem[] {
     return undefined;
   }
 
-  return bullets
-    .filter((b) => {
-      const lower = b.toLowerCase();
+  function isAction(text: string): boolean {
+    const lower = text.toLowerCase();
 
-      // phrase verbs
-      if (phraseVerbs.some((v) => lower.includes(v))) return true;
+    // Folder rules can veto known false positives ("the review went well")
+    if (ignoredPhrases.some((p) => lower.includes(p))) return false;
 
-      // single-word verbs as whole words
-      return singleWordVerbs.some((v) => includesWord(lower, v));
-    })
-    .map((b) => {
-      const cleaned = b.trim();
-      return {
-        text: cleaned,
-        owner: extractOwner(cleaned),
-        due: extractDue(cleaned),
-        notes: extractNotes(cleaned),
-      };
-    });
+    // phrase verbs
+    if (lex.phraseVerbs.some((v) => lower.includes(v))) return true;
+
+    // single-word verbs as whole words
+    return containsPhrase(text, lex.verbs);
+  }
+
+  const seen: Record<string, number> = {};
+  const out: ActionItem[] = [];
+
+  // Checkbox lines are explicit tasks, whatever verb they use
+  function isTask(node: BulletNode): boolean {
+    return node.checked !== undefined || isAction(node.text);
+  }
+
+  function makeItem(node: BulletNode): ActionItem {
+    const cleaned = node.text.trim();
+    const baseId = makeActionItemId(cleaned);
+    const occurrence = seen[baseId] ?? 0;
+    seen[baseId] = occurrence + 1;
+    const due = findDueDate(cleaned, { ...opts?.dueDates, locale: lex.locale });
+    const owners = resolveOwners(cleaned);
+
+    // Nested lines belong to their parent action: tasks become sub-tasks, the rest notes
+    const nested: BulletNode[] = [];
+    const walk = (list: BulletNode[]) => {
+      for (const n of list) {
+        nested.push(n);
+        walk(n.children);
+      }
+    };
+    walk(node.children);
+
+    const subtasks = nested.filter(isTask).map((n) => (n.checked ? `${n.text} (done)` : n.text));
+    const notes = [extractNotes(cleaned), ...nested.filter((n) => !isTask(n)).map((n) => n.text)].filter(Boolean);
+
+    return {
+      id: makeActionItemId(cleaned, occurrence),
+      text: cleaned,
+      owner: owners.length ? owners.join(", ") : undefined,
+      owners: owners.length ? owners : undefined,
+      due: due?.phrase,
+      dueDate: due?.date,
+      notes: notes.length ? notes.join("; ") : undefined,
+      subtasks: subtasks.length ? subtasks : undefined,
+      done: node.checked,
+    };
+  }
+
+  // Top-level markers split the merged notes into raw / post-meeting / outcome
+  let section: NoteSection = "raw";
+
+  function visit(nodes: BulletNode[]) {
+    for (const node of nodes) {
+      if (node.text === POST_MEETING_SENTINEL) {
+        section = "postMeeting";
+        continue;
+      }
+      if (/^#{1,6}\s+meeting outcome\s*$/i.test(node.text)) {
+        section = "outcome";
+        continue;
+      }
+      // Markdown headings ("## Follow up items") are never actions themselves
+      if (/^#{1,6}\s+/.test(node.text)) {
+        visit(node.children);
+        continue;
+      }
+
+      if (isTask(node)) {
+        out.push({ ...makeItem(node), section, sourceSpans: node.span ? [{ ...node.span, section }] : undefined });
+        continue;
+      }
+      // Not an action (ex: a topic line): its children may still be actions
+      visit(node.children);
+    }
+  }
+
+  visit(toBulletNodes(bullets));
+  return out;
+}
+
+/* -------------------- Duplicate merging -------------------- */
+
+const SECTION_LABELS: Record<NoteSection, string> = {
+  raw: "Raw Notes",
+  postMeeting: "Post-Meeting Notes",
+  outcome: "Meeting Outcome",
+};
+
+const SECTION_ORDER: NoteSection[] = ["raw", "postMeeting", "outcome"];
+
+// Filler words that don't identify a task
+const DEDUPE_STOPWORDS = new Set([
+  "a",
+  "an",
+  "the",
+  "to",
+  "will",
+  "by",
+  "on",
+  "for",
+  "of",
+  "and",
+  "with",
+  "i",
+  "we",
+  "me",
+  "our",
+  "my",
+  "please",
+  "need",
+  "needs",
+  "should",
+  "must",
+]);
+
+/**
+ * Content words of an item: owners and the due phrase are removed, so
+ * "send deck" and "Logan will send the deck Friday" reduce to the same tokens.
+ */
+function taskTokens(item: Pick<ActionItem, "text" | "due" | "owners">): Set<string> {
+  let text = item.text.toLowerCase();
+  if (item.due) text = text.split(item.due.toLowerCase()).join(" ");
+  const ownerWords = new Set((item.owners ?? []).flatMap((o) => o.toLowerCase().split(/\s+/)));
+
+  const tokens = (text.match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((t) => !DEDUPE_STOPWORDS.has(t) && !ownerWords.has(t))
+    // crude plural/3rd-person folding: "decks" == "deck", "sends" == "send"
+    .map((t) => (t.length > 3 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t));
+
+  return new Set(tokens);
+}
+
+function isSameTask(a: Set<string>, b: Set<string>): boolean {
+  if (!a.size || !b.size) return false;
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+
+  const smaller = Math.min(a.size, b.size);
+  // Single-word tasks must match exactly; otherwise most of the shorter one must appear in the longer
+  if (smaller === 1) return shared === 1 && a.size === b.size;
+  return shared / smaller >= 0.8;
+}
+
+/**
+ * Owner words are left out of the token overlap, so owners are compared separately: an item
+ * without owners can merge into anyone's, but "Logan will send the deck" and "Mike will send the
+ * deck" are two assignments.
+ */
+function sameOwners(a: ActionItem, b: ActionItem): boolean {
+  const key = (i: ActionItem) =>
+    Array.from(new Set((i.owners ?? []).map((o) => o.toLowerCase())))
+      .sort()
+      .join("\n");
+  const ka = key(a);
+  const kb = key(b);
+  return !ka || !kb || ka === kb;
 }
 
-export function detectActionIssues(items: ActionItem[]): ActionIssue[] {
+/** Same duplicate rule on plain action lines (used when merging per-chunk action lists). */
+export function isSameActionText(a: string, b: string): boolean {
+  return isSameTask(taskTokens({ text: a }), taskTokens({ text: b }));
+}
+
+function sectionRank(item: ActionItem): number {
+  return SECTION_ORDER.indexOf(item.section ?? "raw");
+}
+
+function ownerSpecificity(item: ActionItem): number {
+  const owners = item.owners ?? [];
+  if (!owners.length) return 0;
+  return owners.every(isSelfOwner) ? 1 : 2;
+}
+
+function dueSpecificity(item: ActionItem): number {
+  if (item.dueDate) return 2;
+  return item.due ? 1 : 0;
+}
+
+/**
+ * Pick the item supplying a field: higher specificity wins; on a tie the later
+ * section wins (post-meeting notes and outcome are corrections of the raw notes).
+ */
+function pickBest(list: ActionItem[], specificity: (i: ActionItem) => number): ActionItem {
+  return list.reduce((best, cur) => {
+    const d = specificity(cur) - specificity(best);
+    if (d !== 0) return d > 0 ? cur : best;
+    return sectionRank(cur) >= sectionRank(best) ? cur : best;
+  });
+}
+
+function mergeGroup(group: ActionItem[]): ActionItem {
+  if (group.length === 1) return group[0];
+
+  const textFrom = pickBest(group, (i) => taskTokens(i).size * 1000 + i.text.length);
+  const ownerFrom = pickBest(group, ownerSpecificity);
+  const dueFrom = pickBest(group, dueSpecificity);
+
+  const notes = group
+    .map((i) => i.notes)
+    .filter((n): n is string => Boolean(n))
+    .filter((n, idx, all) => all.findIndex((x) => x.toLowerCase() === n.toLowerCase()) === idx);
+  const notesFrom = group.find((i) => i.notes);
+
+  const subtasks = Array.from(new Set(group.flatMap((i) => i.subtasks ?? [])));
+  const spans = group.flatMap((i) => i.sourceSpans ?? []).sort((a, b) => a.start - b.start);
+  const doneStates = group.map((i) => i.done).filter((d): d is boolean => d !== undefined);
+
+  return {
+    id: group[0].id, // first mention keeps its stable id
+    text: textFrom.text,
+    owner: ownerFrom.owner,
+    owners: ownerFrom.owners,
+    due: dueFrom.due,
+    dueDate: dueFrom.dueDate,
+    notes: notes.length ? notes.join("; ") : undefined,
+    subtasks: subtasks.length ? subtasks : undefined,
+    done: doneStates.length ? doneStates.some(Boolean) : undefined,
+    section: group[0].section,
+    sources: {
+      text: textFrom.section ?? "raw",
+      owner: ownerFrom.owners?.length ? ownerFrom.section ?? "raw" : undefined,
+      due: dueFrom.due ? dueFrom.section ?? "raw" : undefined,
+      notes: notesFrom ? notesFrom.section ?? "raw" : undefined,
+    },
+    sourceSpans: spans.length ? spans : undefined,
+  };
+}
+
+/**
+ * Fuzzy de-duplication: the same task written twice (ex: "send deck" in the raw notes and
+ * "Logan will send the deck Friday" in post-meeting notes) becomes one item that keeps the most
+ * specific owner/due/notes and records which section each field came from. Items assigned to
+ * different people are never merged.
+ */
+export function mergeDuplicateActionItems(items: ActionItem[]): ActionItem[] {
+  const groups: { tokens: Set<string>[]; items: ActionItem[] }[] = [];
+
+  for (const item of items) {
+    const tokens = taskTokens(item);
+    const group = groups.find(
+      (g) => g.items.every((i) => sameOwners(i, item)) && g.tokens.some((t) => isSameTask(t, tokens))
+    );
+    if (group) {
+      group.items.push(item);
+      group.tokens.push(tokens);
+    } else {
+      groups.push({ tokens: [tokens], items: [item] });
+    }
+  }
+
+  return groups.map((g) => mergeGroup(g.items));
+}
+
+function describeSources(sources: ActionItemSources): string {
+  const fields = (["text", "owner", "due", "notes"] as const)
+    .filter((f) => sources[f])
+    .map((f) => `${f} from ${SECTION_LABELS[sources[f] as NoteSection]}`);
+  return fields.join(", ");
+}
+
+export type DetectActionIssuesOptions = {
+  /**
+   * When a roster is provided, owners not on it are reported as "unknownOwner".
+   */
+  roster?: Attendee[];
+
+  /**
+   * Language of the notes (owner phrasing, vague phrases). Defaults to English.
+   */
+  locale?: RecapLocale;
+
+  /**
+   * Folder-level rules; their vague phrases extend the built-in list.
+   */
+  rules?: ExtractionRules;
+};
+
+export function detectActionIssues(items: ActionItem[], opts?: DetectActionIssuesOptions): ActionIssue[] {
   const issues: ActionIssue[] = [];
+  const roster = opts?.roster ?? [];
+  const lex = withExtractionRules(getLexicon(opts?.locale), opts?.rules);
 
   for (const item of items) {
     const textLower = item.text.toLowerCase();
@@ -202,36 +666,49 @@ export function detectActionIssues(items: ActionItem[]): ActionIssue[] {
     const hasOwner =
       Boolean(item.owner) ||
       textLower.includes("@") ||
-      textLower.includes("owner:") ||
-      textLower.includes("assigned to") ||
-      /\bi will\b/i.test(textLower) ||
-      /\bwe will\b/i.test(textLower);
-
-    const hasDue =
-      Boolean(item.due) ||
-      textLower.includes("today") ||
-      textLower.includes("tomorrow") ||
-      textLower.includes("next week") ||
-      /\b(mon|tue|wed|thu|fri|sat|sun)\b/i.test(item.text) ||
-      /\b\d{4}-\d{2}-\d{2}\b/.test(item.text);
-
-    const vague =
-      item.text.length < 20 ||
-      textLower.includes("look into") ||
-      textLower.includes("check on") ||
-      textLower.includes("touch base");
-
-    if (!hasOwner) {
+      lex.ownerTags.some((t) => textLower.includes(`${t}:`)) ||
+      containsPhrase(item.text, [...lex.assignedTo, ...lex.selfOwner, ...lex.teamOwner]);
+
+    // Any date phrase in the locale (today, tomorrow, weekdays, ISO dates, ...)
+    const hasDue = Boolean(item.due) || Boolean(findDueDate(item.text, { locale: lex.locale }));
+
+    const vague = item.text.length < 20 || containsPhrase(item.text, lex.vaguePhrases);
+
+    // Completed tasks don't need an owner or a deadline anymore
+    const done = item.done === true;
+
+    if (!hasOwner && !done) {
       issues.push({
         type: "missingOwner",
         message: `Missing owner: "${item.text}"`,
+        itemId: item.id,
       });
     }
 
-    if (!hasDue) {
+    if (roster.length) {
+      for (const owner of item.owners ?? []) {
+        if (isSelfOwner(owner) || findAttendee(owner, roster)) continue;
+        issues.push({
+          type: "unknownOwner",
+          message: `Unknown owner "${owner}" (not in attendees): "${item.text}"`,
+          itemId: item.id,
+        });
+      }
+    }
+
+    if (!hasDue && !done) {
       issues.push({
         type: "missingDueDate",
         message: `Missing due date: "${item.text}"`,
+        itemId: item.id,
+      });
+    }
+
+    if (item.due && !item.dueDate && !done) {
+      issues.push({
+        type: "unresolvedDueDate",
+        message: `Unclear due date "${item.due}": "${item.text}"`,
+        itemId: item.id,
       });
     }
 
@@ -239,6 +716,7 @@ export function detectActionIssues(items: ActionItem[]): ActionIssue[] {
       issues.push({
         type: "vague",
         message: `Possibly vague: "${item.text}"`,
+        itemId: item.id,
       });
     }
   }
@@ -246,6 +724,17 @@ export function detectActionIssues(items: ActionItem[]): ActionIssue[] {
   return issues;
 }
 
+/**
+ * Attach each item's checks to the item itself (issues without an itemId are dropped here;
+ * they still appear in the rendered "Checks" block).
+ */
+export function structureActionItems(items: ActionItem[], issues: ActionIssue[]): StructuredActionItem[] {
+  return items.map((item) => ({
+    ...item,
+    issues: issues.filter((issue) => issue.itemId === item.id),
+  }));
+}
+
 /**
  * Backward-compatible signature:
  * - Some older callers passed a 3rd arg (legacy pro mode).
@@ -262,10 +751,15 @@ export function formatActionItems(
   lines.push("Action Items\n");
 
   items.forEach((item, idx) => {
-    lines.push(`${idx + 1}. ${item.text}`);
+    const checkbox = item.done === true ? "[x] " : item.done === false ? "[ ] " : "";
+    lines.push(`${idx + 1}. ${checkbox}${item.text}`);
 
     const owner = item.owner ? item.owner : "Unassigned";
-    const due = item.due ? item.due : "No due date";
+    const due = !item.due
+      ? "No due date"
+      : item.dueDate && item.dueDate !== item.due
+        ? `${item.due} (${item.dueDate})`
+        : item.due;
 
     lines.push(`   - Owner: ${owner}`);
     lines.push(`   - Due: ${due}`);
@@ -274,6 +768,14 @@ export function formatActionItems(
       lines.push(`   - Notes: ${item.notes}`);
     }
 
+    for (const sub of item.subtasks ?? []) {
+      lines.push(`   - Sub-task: ${sub}`);
+    }
+
+    if (item.sources) {
+      lines.push(`   - Merged: ${describeSources(item.sources)}`);
+    }
+
     lines.push(""); // spacing between items
   });
 
@@ -290,7 +792,11 @@ export function formatActionItems(
   return lines.join("\n").trim();
 }
 
-export function makeSummary(bullets: string[]): string {
+/**
+ * Legacy "echo" summary: every bullet re-emitted under its heading.
+ * /api/generate uses makeExecutiveSummary; this stays for callers that want the full outline.
+ */
+export function makeSummary(bullets: BulletInput): string {
   const out: string[] = [];
   let inPost = false;
 
@@ -300,8 +806,22 @@ export function makeSummary(bullets: string[]): string {
     out.push("-".repeat(Math.min(24, Math.max(8, title.length))));
   }
 
-  for (const b of bullets) {
-    if (b === "___POST_MEETING_SECTION___") {
+  // Nested bullets render indented under their parent so groups stay together
+  function checkbox(node: BulletNode) {
+    return node.checked === undefined ? "" : node.checked ? "[x] " : "[ ] ";
+  }
+
+  function pushChildren(children: BulletNode[], level: number) {
+    for (const child of children) {
+      out.push(`${"  ".repeat(level)}- ${checkbox(child)}${child.text}`);
+      pushChildren(child.children, level + 1);
+    }
+  }
+
+  for (const node of toBulletNodes(bullets)) {
+    const b = node.text;
+
+    if (b === POST_MEETING_SENTINEL) {
       inPost = true;
       pushHeading("Post-Meeting Notes");
       continue;
@@ -317,17 +837,318 @@ export function makeSummary(bullets: string[]): string {
 
     // Normal summary bullets (pre post-meeting)
     if (!inPost) {
-      out.push(`- ${b}`);
+      out.push(`- ${checkbox(node)}${b}`);
+      pushChildren(node.children, 1);
+      continue;
+    }
+
+    // Post-meeting lines: plain text (no dash); details under them stay bulleted
+    if (b.trim()) out.push(`${checkbox(node)}${b.trim()}`);
+    pushChildren(node.children, 1);
+  }
+
+  return out.join("\n");
+}
+
+/* -------------------- Task A: Normalizer (deterministic) -------------------- */
+
+export type NormalizeNotesOptions = {
+  objective?: string; // session objective, preferred over anything found in the notes
+  roster?: Attendee[];
+  dueDates?: DueDateContext;
+  locale?: RecapLocale;
+  rules?: ExtractionRules;
+
+  // Reuse already-parsed items/issues (avoids parsing twice in /api/generate)
+  items?: ActionItem[];
+  issues?: ActionIssue[];
+};
+
+const DECISION_RE = /\b(decided|decision|agreed|approved|signed off|going with|will go with|settled on|chose|final call)\b/i;
+const RISK_RE = /\b(block(ed|er|ers|ing)?|risks?|risky|concerns?|waiting on|depends on|dependency|delay(ed)?|behind schedule|at risk|slipp(ing|ed))\b/i;
+const QUESTION_RE = /(\?\s*$|^(open )?questions?:|^q:|\btbd\b|\bunclear\b|\bnot sure\b)/i;
+const OBJECTIVE_RE = /^(objective|goal|purpose|agenda)\s*:\s*(.+)$/i;
+const ATTENDEES_RE = /^(attendees|participants|present|people)\s*:\s*(.+)$/i;
+
+// Headings the merge step adds; they are structure, not topics
+const STRUCTURAL_HEADINGS = ["post-meeting notes", "meeting outcome"];
+
+function uniqueCaseInsensitive(list: string[]): string[] {
+  const seen = new Set<string>();
+  return list.filter((x) => {
+    const k = x.toLowerCase();
+    if (!x || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Rule-based Task A: fill NormalizerJson from merged-note bullets without an AI provider.
+ * The output feeds refine decisions (ambiguity_flags) and is returned by /api/generate.
+ */
+export function normalizeNotes(bullets: BulletInput, opts?: NormalizeNotesOptions): NormalizerJson {
+  const lines = flattenBullets(toBulletNodes(bullets)).filter((b) => b !== POST_MEETING_SENTINEL);
+
+  const locale = opts?.locale;
+  const rules = opts?.rules;
+  const items =
+    opts?.items ?? parseActionItems(bullets, { dueDates: opts?.dueDates, roster: opts?.roster, locale, rules });
+  const issues = opts?.issues ?? detectActionIssues(items, { roster: opts?.roster, locale, rules });
+
+  let objective = safeString(opts?.objective).trim();
+  const topics: string[] = [];
+  const decisions: string[] = [];
+  const dates: string[] = [];
+  const attendees: string[] = (opts?.roster ?? []).map((a) => a.name);
+  const risks: string[] = [];
+  const questions: string[] = [];
+
+  for (const line of lines) {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      const title = heading[1].trim();
+      if (title && !STRUCTURAL_HEADINGS.includes(title.toLowerCase())) topics.push(title);
+      continue;
+    }
+
+    const objectiveTag = line.match(OBJECTIVE_RE);
+    if (objectiveTag) {
+      if (!objective) objective = objectiveTag[2].trim();
+      continue;
+    }
+
+    const attendeesTag = line.match(ATTENDEES_RE);
+    if (attendeesTag) {
+      attendees.push(
+        ...attendeesTag[2]
+          .split(/\s*(?:,|;|&|\band\b)\s*/i)
+          .map((n) => n.trim())
+          .filter(Boolean)
+      );
       continue;
     }
 
-    // Post-meeting lines: plain text (no dash)
-    if (b.trim()) out.push(b.trim());
+    // "Budget:" style lead-ins act as topics too
+    const topicTag = line.match(/^(?:topic\s*:\s*(.+)|([A-Z][\w\s/&-]{2,40}):$)/i);
+    if (topicTag) topics.push((topicTag[1] ?? topicTag[2]).trim());
+
+    if (DECISION_RE.test(line)) decisions.push(line);
+    if (RISK_RE.test(line)) risks.push(line);
+    if (QUESTION_RE.test(line)) questions.push(line);
+
+    // Only phrases that resolve to a day ("soon"/"asap" aren't dates)
+    const due = findDueDate(line, { ...opts?.dueDates, locale });
+    if (due?.date) dates.push(due.date !== due.phrase ? `${due.phrase} (${due.date})` : due.phrase);
+  }
+
+  // Owners named in the notes are attendees too (Me/We are not people)
+  for (const item of items) {
+    for (const owner of item.owners ?? []) {
+      if (!isSelfOwner(owner)) attendees.push(owner);
+    }
   }
 
+  // Ambiguity = anything a refine pass (or the user) would need to clarify
+  const ambiguity = issues.filter((i) => i.type !== "missingDueDate").map((i) => i.message);
+  for (const q of questions) {
+    if (/\btbd\b|\bunclear\b|\bnot sure\b/i.test(q)) ambiguity.push(`Unresolved: "${q}"`);
+  }
+
+  if (!objective) {
+    // Fall back to the first topic heading, if the notes have one
+    objective = topics[0] ?? "";
+  }
+
+  return {
+    meeting_objective: objective || undefined,
+    topics: uniqueCaseInsensitive(topics),
+    decisions: uniqueCaseInsensitive(decisions),
+    action_item_candidates: items.map((i) => i.text),
+    dates_mentioned: uniqueCaseInsensitive(dates),
+    attendees: uniqueCaseInsensitive(attendees),
+    blockers_risks: uniqueCaseInsensitive(risks),
+    open_questions: uniqueCaseInsensitive(questions),
+    ambiguity_flags: uniqueCaseInsensitive(ambiguity),
+  };
+}
+
+/* -------------------- Executive summary (deterministic) -------------------- */
+
+export type ExecutiveSummaryOptions = NormalizeNotesOptions & {
+  normalized?: NormalizerJson; // reuse Task A output when the caller already has it
+  maxChars?: number; // target length for the whole summary (default 1500)
+  maxPerSection?: number; // upper bound per section before length trimming (default 5)
+};
+
+type SummaryLine = {
+  text: string;
+  depth: number;
+  index: number; // document order
+  final: boolean; // from Post-Meeting Notes / Meeting Outcome
+};
+
+const STRONG_DECISION_RE = /\b(approved|signed off|final|confirmed|committed)\b/i;
+const STRONG_RISK_RE = /\b(blocked|blocker|at risk|critical|urgent|showstopper)\b/i;
+
+/**
+ * Heuristic importance of a line: final/outcome lines, top-level points, concrete details
+ * (numbers, dates, money) and strong keywords rank higher; fragments and rambles rank lower.
+ */
+function scoreSummaryLine(line: SummaryLine, strongRe?: RegExp): number {
+  let score = 1;
+  if (line.final) score += 2;
+  if (line.depth === 0) score += 1;
+  if (/[\d$€£%]/.test(line.text)) score += 1;
+  if (strongRe?.test(line.text)) score += 1;
+  if (line.text.length < 15 || line.text.length > 160) score -= 1;
+  return score;
+}
+
+function rankLines(texts: string[], lines: SummaryLine[], strongRe?: RegExp): string[] {
+  const byText = new Map(lines.map((l) => [l.text.toLowerCase(), l]));
+  return texts
+    .map((text, i) => {
+      const line = byText.get(text.toLowerCase()) ?? { text, depth: 0, index: i, final: false };
+      return { text, index: line.index, score: scoreSummaryLine(line, strongRe) };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((x) => x.text);
+}
+
+function plural(n: number, one: string, many: string) {
+  return `${n} ${n === 1 ? one : many}`;
+}
+
+function renderSections(sections: { title: string; lines: string[] }[]): string {
+  const out: string[] = [];
+  for (const section of sections) {
+    if (!section.lines.length) continue;
+    if (out.length) out.push("");
+    out.push(section.title);
+    out.push("-".repeat(Math.min(24, Math.max(8, section.title.length))));
+    out.push(...section.lines);
+  }
   return out.join("\n");
 }
 
+/**
+ * Short, sectioned summary: an overview paragraph, then Key Decisions, Risks/Blockers,
+ * Open Questions and Next Steps. Candidate lines are classified by keyword (Task A),
+ * ranked, and trimmed until the whole summary fits `maxChars`.
+ */
+export function makeExecutiveSummary(bullets: BulletInput, opts?: ExecutiveSummaryOptions): string {
+  const maxChars = opts?.maxChars ?? 1500;
+  const maxPerSection = opts?.maxPerSection ?? 5;
+
+  const normalized = opts?.normalized ?? normalizeNotes(bullets, opts);
+  const items =
+    opts?.items ??
+    parseActionItems(bullets, { dueDates: opts?.dueDates, roster: opts?.roster, locale: opts?.locale, rules: opts?.rules });
+
+  // Document-order view of the notes (depth + whether the line is post-meeting/outcome)
+  const lines: SummaryLine[] = [];
+  const outcome: string[] = [];
+  let final = false;
+  let inOutcome = false;
+  const walk = (nodes: BulletNode[]) => {
+    for (const node of nodes) {
+      if (node.text === POST_MEETING_SENTINEL) {
+        final = true;
+        inOutcome = false;
+        continue;
+      }
+      const heading = node.text.match(/^#{1,6}\s+(.*)$/);
+      if (heading) {
+        inOutcome = /^meeting outcome$/i.test(heading[1].trim());
+        if (inOutcome) final = true;
+        continue;
+      }
+      lines.push({ text: node.text, depth: node.depth, index: lines.length, final });
+      if (inOutcome) outcome.push(node.text);
+      walk(node.children);
+    }
+  };
+  walk(toBulletNodes(bullets));
+
+  const decisions = rankLines(normalized.decisions ?? [], lines, STRONG_DECISION_RE);
+  const risks = rankLines(normalized.blockers_risks ?? [], lines, STRONG_RISK_RE);
+  const questions = rankLines(normalized.open_questions ?? [], lines);
+
+  // Next steps: open items first, the ones with an owner and a date ahead of the rest
+  const openItems = items.filter((i) => i.done !== true);
+  const steps = openItems
+    .map((item, index) => ({ item, index, score: (item.owner ? 1 : 0) + (item.due ? 1 : 0) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ item }) => {
+      const meta = [item.owner, item.dueDate ?? item.due].filter(Boolean).join(", ");
+      return meta ? `${item.text} (${meta})` : item.text;
+    });
+
+  // Overview paragraph
+  const topics = normalized.topics ?? [];
+  const overview: string[] = [];
+
+  // Task A falls back to the first heading as the objective; don't repeat it as a goal
+  const goal = normalized.meeting_objective;
+  if (goal && goal !== topics[0]) overview.push(`Goal: ${goal.replace(/[.\s]+$/, "")}.`);
+  if (topics.length) {
+    const more = topics.length > 4 ? ` (+${topics.length - 4} more)` : "";
+    overview.push(`Covered ${topics.slice(0, 4).join(", ")}${more}.`);
+  } else {
+    // No headings: lead with the most important plain discussion point
+    const classified = new Set(
+      [...decisions, ...risks, ...questions, ...items.map((i) => i.text)].map((t) => t.toLowerCase())
+    );
+    const lead = rankLines(
+      lines.filter((l) => !l.final && !classified.has(l.text.toLowerCase())).map((l) => l.text),
+      lines
+    )[0];
+    if (lead) overview.push(`Discussed: ${lead.replace(/[.\s]+$/, "")}.`);
+  }
+
+  const counts = [
+    decisions.length ? plural(decisions.length, "decision", "decisions") : "",
+    openItems.length ? plural(openItems.length, "open action item", "open action items") : "",
+    risks.length ? plural(risks.length, "risk/blocker", "risks/blockers") : "",
+    questions.length ? plural(questions.length, "open question", "open questions") : "",
+  ].filter(Boolean);
+  if (counts.length) {
+    const last = counts.pop();
+    overview.push(`${counts.length ? `${counts.join(", ")} and ${last}` : last} noted.`.replace(/^./, (c) => c.toUpperCase()));
+  }
+  if (outcome.length) overview.push(`Outcome: ${outcome[0].replace(/[.\s]+$/, "")}.`);
+
+  // Shrink the per-section cap until the summary fits the target length
+  let overviewText = overview.join(" ");
+  for (let cap = maxPerSection; ; cap--) {
+    const take = (list: string[]) => {
+      const shown = list.slice(0, Math.max(cap, 1)).map((t) => `- ${t}`);
+      if (list.length > shown.length) shown.push(`- (+${list.length - shown.length} more)`);
+      return shown;
+    };
+
+    const text = renderSections([
+      { title: "Overview", lines: overviewText ? [overviewText] : [] },
+      { title: "Key Decisions", lines: take(decisions) },
+      { title: "Risks / Blockers", lines: take(risks) },
+      { title: "Open Questions", lines: take(questions) },
+      { title: "Next Steps", lines: take(steps) },
+    ]);
+
+    if (text.length <= maxChars) return text;
+    if (cap <= 1) {
+      // Still too long with one line per section: shorten the overview, then hard-cut
+      if (overviewText.length > 200) {
+        overviewText = `${overviewText.slice(0, 197).trimEnd()}...`;
+        cap = 2;
+        continue;
+      }
+      return `${text.slice(0, Math.max(0, maxChars - 3)).trimEnd()}...`;
+    }
+  }
+}
+
 /**
  * Deterministic email template generator.
  * In Phase 1, only Follow-Up uses this (via makeFollowUpEmailDraftFromHighlights).
@@ -390,6 +1211,41 @@ export function makeEmailDraft(bullets: string[], opts?: MakeEmailDraftOptions):
   );
 }
 
+/* -------------------- Full deterministic pass -------------------- */
+
+export type RecapNotesOptions = {
+  objective?: string;
+  roster?: Attendee[];
+  dueDates?: DueDateContext;
+  locale?: RecapLocale;
+  rules?: ExtractionRules;
+};
+
+/**
+ * The whole Phase 1 pipeline over one piece of merged notes (the meeting, or one chunk of it):
+ * what /api/generate falls back to and what the eval harness (eval/run.ts) scores.
+ */
+export function recapNotes(notes: string, opts?: RecapNotesOptions) {
+  const { objective, roster, dueDates, locale, rules } = opts ?? {};
+
+  // Keep the bullet tree so nested details stay attached to their parent line
+  const bullets = parseBulletTree(notes);
+  // The same task often appears in raw notes and again in post-meeting notes: merge those
+  const items = mergeDuplicateActionItems(parseActionItems(bullets, { dueDates, roster, locale, rules }));
+  const issues = detectActionIssues(items, { roster, locale, rules });
+
+  // Task A (deterministic): structured view of the notes; drives refine decisions
+  const normalized = normalizeNotes(bullets, { objective, roster, dueDates, locale, rules, items, issues });
+
+  return {
+    normalized,
+    // Sectioned executive summary (overview, decisions, risks, questions, next steps)
+    summary: makeExecutiveSummary(bullets, { normalized, items }),
+    actionItems: formatActionItems(items, issues),
+    structuredActionItems: structureActionItems(items, issues),
+  };
+}
+
 /* -------------------- Follow-Up Helper -------------------- */
 
 export type FollowUpEmailHighlight = {
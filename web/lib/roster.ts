@@ -0,0 +1,150 @@
+// web/lib/roster.ts
+// Per-session attendee roster. Action-item owners are resolved against it so
+// "Jackie", "@jmartin" and "jackie@acme.com" all map to the same person.
+
+export type Attendee = {
+  name: string; // canonical display name ("Jackie Martin")
+  aliases?: string[]; // handles / nicknames ("jmartin", "Jax")
+  email?: string;
+};
+
+// Owners that are never checked against the roster
+const SELF_OWNERS = ["me", "we"];
+
+function key(s: string): string {
+  return s
+    .toLowerCase()
+    .replace(/^@/, "")
+    .replace(/[.\s]+$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function attendeeKeys(a: Attendee): string[] {
+  const keys = [a.name, ...(a.aliases ?? [])];
+  if (a.email) {
+    keys.push(a.email);
+    keys.push(a.email.split("@")[0]);
+  }
+  return keys.map(key).filter(Boolean);
+}
+
+function firstName(a: Attendee): string {
+  return key(a.name).split(" ")[0] ?? "";
+}
+
+/**
+ * Find the attendee a written name refers to. Exact name/alias/email wins;
+ * a bare first name only matches when it's unambiguous within the roster.
+ */
+export function findAttendee(written: string, roster: Attendee[]): Attendee | undefined {
+  const k = key(written);
+  if (!k) return undefined;
+
+  const exact = roster.find((a) => attendeeKeys(a).includes(k));
+  if (exact) return exact;
+
+  const byFirst = roster.filter((a) => firstName(a) === k);
+  return byFirst.length === 1 ? byFirst[0] : undefined;
+}
+
+export function isSelfOwner(owner: string): boolean {
+  return SELF_OWNERS.includes(key(owner));
+}
+
+export type ResolvedOwner = {
+  name: string; // canonical roster name, or the name as written when unknown
+  known: boolean;
+};
+
+/**
+ * Resolve a raw owner string. Tag captures like "owner: Logan by friday" can carry trailing words,
+ * so progressively shorter word prefixes are tried before giving up.
+ */
+export function resolveOwner(written: string, roster: Attendee[]): ResolvedOwner {
+  const trimmed = written.trim();
+  if (isSelfOwner(trimmed)) return { name: trimmed, known: true };
+
+  const words = trimmed.split(/\s+/);
+  for (let n = words.length; n > 0; n--) {
+    const hit = findAttendee(words.slice(0, n).join(" "), roster);
+    if (hit) return { name: hit.name, known: true };
+  }
+
+  return { name: trimmed, known: false };
+}
+
+/* -------------------- text format (roster editor) -------------------- */
+
+/**
+ * One attendee per line: `Name (alias, alias) <email>`. Aliases and email are optional.
+ * Example: `Jackie Martin (jmartin, Jax) <jackie@acme.com>`
+ */
+export function parseAttendees(text: string): Attendee[] {
+  const out: Attendee[] = [];
+
+  for (const raw of text.split("\n")) {
+    let line = raw.replace(/^(\*|-|\d+[.)])\s+/, "").trim();
+    if (!line) continue;
+
+    let email: string | undefined;
+    const emailMatch = line.match(/<([^>]+)>/) ?? line.match(/\b[\w.+-]+@[\w-]+\.[\w.-]+\b/);
+    if (emailMatch) {
+      email = (emailMatch[1] ?? emailMatch[0]).trim();
+      line = line.replace(emailMatch[0], " ");
+    }
+
+    let aliases: string[] = [];
+    const aliasMatch = line.match(/\(([^)]*)\)/);
+    if (aliasMatch) {
+      aliases = aliasMatch[1]
+        .split(",")
+        .map((a) => a.trim().replace(/^@/, ""))
+        .filter(Boolean);
+      line = line.replace(aliasMatch[0], " ");
+    }
+
+    const name = line.replace(/\s+/g, " ").trim() || email?.split("@")[0] || "";
+    if (!name) continue;
+
+    out.push({ name, aliases: aliases.length ? aliases : undefined, email });
+  }
+
+  return out;
+}
+
+export function formatAttendees(roster: Attendee[]): string {
+  return roster
+    .map((a) => {
+      const aliases = a.aliases?.length ? ` (${a.aliases.join(", ")})` : "";
+      const email = a.email ? ` <${a.email}>` : "";
+      return `${a.name}${aliases}${email}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Back-compat / API input: coerce unknown JSON into a clean roster.
+ */
+export function normalizeAttendees(raw: unknown): Attendee[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((x): Attendee | null => {
+      const a = x && typeof x === "object" ? (x as Record<string, unknown>) : null;
+      const name = String(a?.name ?? "").trim();
+      if (!a || !name) return null;
+
+      const aliases = Array.isArray(a.aliases)
+        ? a.aliases.map((s) => String(s ?? "").trim()).filter(Boolean)
+        : [];
+      const email = String(a.email ?? "").trim();
+
+      return {
+        name,
+        aliases: aliases.length ? aliases : undefined,
+        email: email || undefined,
+      };
+    })
+    .filter((a): a is Attendee => Boolean(a));
+}
@@ -0,0 +1,109 @@
+// web/lib/sessionStore.test.ts
+// Loading from localStorage: migrated lists are written back once, unreadable data is copied to
+// a backup key first, and a key whose backup failed is never saved over.
+
+import { beforeEach, test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { SCHEMA_VERSION } from "@/lib/migrations";
+import { createSession, loadSessions, saveSessions } from "@/lib/sessionStore";
+
+const KEY = "recapkit.sessions";
+
+// In-memory localStorage; `failBackups` makes every backup write throw (ex: quota exceeded)
+const storage = new Map<string, string>();
+let failBackups = false;
+
+Object.assign(globalThis, {
+  window: globalThis,
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (failBackups && key.includes(".backup.")) throw new Error("QuotaExceededError");
+      storage.set(key, value);
+    },
+    removeItem: (key: string) => storage.delete(key),
+  },
+});
+
+beforeEach(() => {
+  storage.clear();
+  failBackups = false;
+});
+
+function backups(): [string, string][] {
+  return Array.from(storage.entries()).filter(([key]) => key.startsWith(`${KEY}.backup.`));
+}
+
+function quiet(t: TestContext) {
+  t.mock.method(console, "error", () => undefined);
+}
+
+test("current records load as is and nothing is written back", () => {
+  const stored = JSON.stringify([createSession()]);
+  storage.set(KEY, stored);
+
+  assert.equal(loadSessions().length, 1);
+  assert.equal(storage.get(KEY), stored);
+  assert.deepEqual(backups(), []);
+});
+
+test("old records are migrated and the upgraded list is written back", () => {
+  storage.set(KEY, JSON.stringify([{ id: "s1", mode: "future", updatedAt: 1 }]));
+
+  const [session] = loadSessions();
+  assert.equal(session.mode, "past");
+  assert.equal(session.schemaVersion, SCHEMA_VERSION);
+
+  const saved = JSON.parse(storage.get(KEY) ?? "[]");
+  assert.equal(saved[0].schemaVersion, SCHEMA_VERSION);
+  assert.equal(saved[0].mode, "past");
+});
+
+test("corrupt JSON is backed up and left in place", (t) => {
+  quiet(t);
+  storage.set(KEY, "[{not json");
+
+  assert.deepEqual(loadSessions(), []);
+  assert.deepEqual(
+    backups().map(([, text]) => text),
+    ["[{not json"]
+  );
+  assert.equal(storage.get(KEY), "[{not json");
+});
+
+test("one unreadable record is backed up and the rest are kept", (t) => {
+  quiet(t);
+  const good = createSession();
+  storage.set(KEY, JSON.stringify([good, 42]));
+
+  assert.deepEqual(
+    loadSessions().map((s) => s.id),
+    [good.id]
+  );
+  assert.deepEqual(
+    backups().map(([, text]) => JSON.parse(text)),
+    [[42]]
+  );
+  assert.deepEqual(
+    JSON.parse(storage.get(KEY) ?? "[]").map((s: { id: string }) => s.id),
+    [good.id]
+  );
+});
+
+// Last: a failed backup marks the key unsafe for the rest of the process
+test("when the backup fails, the stored list is never overwritten", (t) => {
+  quiet(t);
+  failBackups = true;
+  const good = { id: "s1", mode: "future", updatedAt: 1 };
+  const stored = JSON.stringify([good, 42]);
+  storage.set(KEY, stored);
+
+  assert.deepEqual(
+    loadSessions().map((s) => s.id),
+    ["s1"]
+  );
+  assert.equal(storage.get(KEY), stored);
+
+  saveSessions([createSession()]);
+  assert.equal(storage.get(KEY), stored);
+});
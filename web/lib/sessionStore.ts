@@ -1,14 +1,23 @@
 // web/lib/sessionStore.ts
 
 import type { FollowUpType, HighlightTag, MeetingResult, SessionMode } from "./types";
+import type { ActionIssue, ActionItemSources, NoteSection, SourceSpan, StructuredActionItem } from "./recap";
+import { normalizeAttendees, type Attendee } from "./roster";
+import { asLocalePreference, type LocalePreference } from "./lexicons";
+import { normalizeRefinement, type Refinement } from "./ai/refine";
+import { hasExtractionRules, normalizeExtractionRules, type ExtractionRules } from "./extractionRules";
+import { migrateRecord, schemaVersionOf, SCHEMA_VERSION, type StoredKind } from "./migrations";
 
 export type Outputs = {
   actionItems: string;
   summary: string;
   email: string;
+
+  // Structured form of actionItems (same items the rendered string was built from)
+  structuredActionItems?: StructuredActionItem[];
 };
 
-export type CheckpointReason = "clear" | "generate" | "end" | "manual";
+export type CheckpointReason = "clear" | "generate" | "end" | "manual" | "refine";
 
 export type SessionCheckpoint = {
   rawNotes: string;
@@ -26,6 +35,8 @@ export type FollowUpHighlight = {
 
 export type FollowUpStatus = "open" | "closed";
 
+export type EmailDraftSource = "ai" | "template";
+
 export type FollowUpData = {
   id: string;
   title: string;
@@ -40,6 +51,8 @@ export type FollowUpData = {
 
   // Phase 1: Persisted draft (belongs to the follow-up, not the session)
   emailDraft?: string;
+  // How the draft was written: Task E model, or the built-in template (free tier / AI failure)
+  emailDraftSource?: EmailDraftSource;
 
   // Phase 1: Simple completion lifecycle
   status?: FollowUpStatus;
@@ -58,6 +71,7 @@ export type PastMeta = {
 
 export type Session = {
   id: string;
+  schemaVersion: number; // see lib/migrations.ts
   title: string;
   folderId: string | null;
   mode: SessionMode;
@@ -66,8 +80,17 @@ export type Session = {
 
   postMeetingNotes?: string;
 
+  // Who was in the meeting; action-item owners are resolved against this roster.
+  attendees?: Attendee[];
+
+  // Language of the notes for action-item extraction ("auto" = detect from the notes)
+  locale?: LocalePreference;
+
   outputs: Outputs;
 
+  // AI refine pass (Task C) waiting for accept/reject; never applied to outputs automatically
+  pendingRefinement?: Refinement;
+
   pastMeta?: PastMeta;
 
   followUps?: FollowUpData[];
@@ -81,13 +104,19 @@ export type Session = {
 
 export type Folder = {
   id: string;
+  schemaVersion: number; // see lib/migrations.ts
   name: string;
+
+  // Team-specific extraction rules, applied to every session in this folder
+  extractionRules?: ExtractionRules;
+
   createdAt: number;
   updatedAt: number;
 };
 
 const SESSIONS_KEY = "recapkit.sessions";
 const FOLDERS_KEY = "recapkit.folders";
+const DELETED_KEY = "recapkit.deleted";
 
 /* -------------------- utils -------------------- */
 
@@ -99,11 +128,104 @@ function defaultOutputs(): Outputs {
   return { actionItems: "", summary: "", email: "" };
 }
 
+const ACTION_ISSUE_TYPES: ActionIssue["type"][] = [
+  "missingOwner",
+  "unknownOwner",
+  "missingDueDate",
+  "unresolvedDueDate",
+  "vague",
+  "ungrounded",
+];
+
+function optStr(x: unknown): string | undefined {
+  return typeof x === "string" && x ? x : undefined;
+}
+
+function normalizeActionIssue(raw: unknown): ActionIssue | null {
+  const i = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : null;
+  if (!i || !ACTION_ISSUE_TYPES.includes(i.type as ActionIssue["type"])) return null;
+  return {
+    type: i.type as ActionIssue["type"],
+    message: String(i.message ?? ""),
+    itemId: optStr(i.itemId),
+  };
+}
+
+const NOTE_SECTIONS: NoteSection[] = ["raw", "postMeeting", "outcome"];
+
+function asNoteSection(x: unknown): NoteSection | undefined {
+  return NOTE_SECTIONS.includes(x as NoteSection) ? (x as NoteSection) : undefined;
+}
+
+function normalizeSources(raw: unknown): ActionItemSources | undefined {
+  const src = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : null;
+  if (!src) return undefined;
+  return {
+    text: asNoteSection(src.text),
+    owner: asNoteSection(src.owner),
+    due: asNoteSection(src.due),
+    notes: asNoteSection(src.notes),
+  };
+}
+
+function normalizeSourceSpans(raw: unknown): SourceSpan[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const spans = raw
+    .map((x): SourceSpan | null => {
+      const s = x && typeof x === "object" ? (x as Record<string, unknown>) : null;
+      const line = Number(s?.line);
+      const start = Number(s?.start);
+      const end = Number(s?.end);
+      if (!s || !Number.isInteger(line) || !Number.isInteger(start) || !Number.isInteger(end) || end < start) return null;
+      return { line, start, end, section: asNoteSection(s.section) };
+    })
+    .filter((s): s is SourceSpan => Boolean(s));
+  return spans.length ? spans : undefined;
+}
+
+export function normalizeStructuredActionItems(raw: unknown): StructuredActionItem[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+
+  return raw
+    .map((x): StructuredActionItem | null => {
+      const item = x && typeof x === "object" ? (x as Record<string, unknown>) : null;
+      const text = String(item?.text ?? "").trim();
+      if (!item || !text) return null;
+
+      const issues = Array.isArray(item.issues) ? item.issues : [];
+      return {
+        id: optStr(item.id) ?? generateId(),
+        text,
+        owner: optStr(item.owner),
+        owners: Array.isArray(item.owners) ? item.owners.map(String).filter(Boolean) : undefined,
+        due: optStr(item.due),
+        dueDate: optStr(item.dueDate),
+        notes: optStr(item.notes),
+        subtasks: Array.isArray(item.subtasks) ? item.subtasks.map(String).filter(Boolean) : undefined,
+        done: typeof item.done === "boolean" ? item.done : undefined,
+        section: asNoteSection(item.section),
+        sources: normalizeSources(item.sources),
+        sourceSpans: normalizeSourceSpans(item.sourceSpans),
+        issues: issues.map(normalizeActionIssue).filter((i): i is ActionIssue => Boolean(i)),
+      };
+    })
+    .filter((i): i is StructuredActionItem => Boolean(i));
+}
+
+/** A pending refinement plus the structured items it carries (validated like the outputs' own). */
+export function normalizePendingRefinement(raw: unknown): Refinement | undefined {
+  const refinement = normalizeRefinement(raw);
+  if (!refinement) return undefined;
+  const items = normalizeStructuredActionItems((raw as Record<string, unknown>).structuredActionItems);
+  return items ? { ...refinement, structuredActionItems: items } : refinement;
+}
+
 function normalizeOutputs(o: any): Outputs {
   return {
     actionItems: o?.actionItems ?? "",
     summary: o?.summary ?? "",
     email: o?.email ?? "",
+    structuredActionItems: normalizeStructuredActionItems(o?.structuredActionItems),
   };
 }
 
@@ -166,6 +288,7 @@ function normalizeFollowUpData(f: any): FollowUpData {
     highlights: normalizeHighlights(f?.highlights),
 
     emailDraft: f?.emailDraft ?? "",
+    emailDraftSource: f?.emailDraftSource === "ai" || f?.emailDraftSource === "template" ? f.emailDraftSource : undefined,
 
     status,
     closedAt: typeof f?.closedAt === "number" ? f.closedAt : undefined,
@@ -173,14 +296,16 @@ function normalizeFollowUpData(f: any): FollowUpData {
   };
 }
 
-/**
- * Back-compat: normalize legacy checkpoints (including legacy "pause") into the new shape.
- */
+// Legacy reasons ("pause") are rewritten by the v2 migration; anything else unknown is "manual"
 function normalizeCheckpoint(cp: any): SessionCheckpoint {
   const reasonRaw = String(cp?.reason ?? "manual");
 
   const reason: CheckpointReason =
-    reasonRaw === "clear" || reasonRaw === "generate" || reasonRaw === "end" || reasonRaw === "manual"
+    reasonRaw === "clear" ||
+    reasonRaw === "generate" ||
+    reasonRaw === "end" ||
+    reasonRaw === "manual" ||
+    reasonRaw === "refine"
       ? (reasonRaw as CheckpointReason)
       : "manual";
 
@@ -188,64 +313,46 @@ function normalizeCheckpoint(cp: any): SessionCheckpoint {
     rawNotes: cp?.rawNotes ?? "",
     objective: cp?.objective ?? "",
     outputs: normalizeOutputs(cp?.outputs ?? defaultOutputs()),
-    timestamp: cp?.timestamp ?? cp?.createdAt ?? Date.now(),
+    timestamp: cp?.timestamp ?? Date.now(),
     reason,
   };
 }
 
 /**
- * Back-compat: normalize saved sessions from localStorage into the current shape.
+ * Normalize a saved session (localStorage or the server store) into the current shape.
+ * Legacy shapes are migrated first (lib/migrations.ts); throws MigrationError if that fails.
  */
-function normalizeSession(s: any): Session {
+export function normalizeSession(raw: unknown): Session {
   const now = Date.now();
+  const s: any = migrateRecord("session", raw);
 
   const checkpointsRaw = Array.isArray(s?.checkpoints) ? s.checkpoints : [];
   const redoRaw = Array.isArray(s?.redoStack) ? s.redoStack : [];
 
-  // Back-compat: legacy "future" becomes "followUp"
   const modeRaw = String(s?.mode ?? "current");
   const mode: SessionMode =
-    modeRaw === "past" || modeRaw === "current" || modeRaw === "followUp"
-      ? (modeRaw as SessionMode)
-      : modeRaw === "future"
-        ? "followUp"
-        : "current";
+    modeRaw === "past" || modeRaw === "current" || modeRaw === "followUp" ? (modeRaw as SessionMode) : "current";
 
-  // NEW: followUps array (back-compat from legacy followUp object)
   const followUpsRaw = Array.isArray(s?.followUps) ? s.followUps : [];
-  const legacySingleFollowUp = s?.followUp ? s.followUp : null;
-
-  const followUpsNormalized: FollowUpData[] = [
-    ...followUpsRaw.map(normalizeFollowUpData),
-    ...(legacySingleFollowUp ? [normalizeFollowUpData(legacySingleFollowUp)] : []),
-  ];
-
-  // NEW: pastMeta (back-compat: lift meetingResult/outcome from legacy followUp if present)
-  const hasPastMeta = Boolean(s?.pastMeta);
-  const legacyMeetingResult = legacySingleFollowUp?.meetingResult;
-  const legacyMeetingOutcome = legacySingleFollowUp?.meetingOutcome;
-
-  const pastMetaFromLegacy =
-    !hasPastMeta && (legacyMeetingResult || legacyMeetingOutcome)
-      ? normalizePastMeta({
-          meetingResult: legacyMeetingResult ?? "Pending",
-          meetingOutcome: legacyMeetingOutcome ?? "",
-        })
-      : undefined;
 
   return {
     id: s?.id ?? generateId(),
+    // A record from a newer build keeps its version (never stamped back to ours)
+    schemaVersion: Math.max(schemaVersionOf(raw), SCHEMA_VERSION),
     title: s?.title ?? "Untitled Meeting",
     folderId: s?.folderId ?? null,
     mode,
     objective: s?.objective ?? "",
     rawNotes: s?.rawNotes ?? "",
     postMeetingNotes: s?.postMeetingNotes ?? "",
+    attendees: normalizeAttendees(s?.attendees),
+    locale: asLocalePreference(s?.locale),
     outputs: normalizeOutputs(s?.outputs ?? defaultOutputs()),
+    pendingRefinement: normalizePendingRefinement(s?.pendingRefinement),
 
-    pastMeta: s?.pastMeta ? normalizePastMeta(s.pastMeta) : pastMetaFromLegacy ? pastMetaFromLegacy : undefined,
+    pastMeta: s?.pastMeta ? normalizePastMeta(s.pastMeta) : undefined,
 
-    followUps: followUpsNormalized.length ? followUpsNormalized : undefined,
+    followUps: followUpsRaw.length ? followUpsRaw.map(normalizeFollowUpData) : undefined,
 
     checkpoints: checkpointsRaw.map(normalizeCheckpoint),
     redoStack: redoRaw.map(normalizeCheckpoint),
@@ -255,22 +362,72 @@ function normalizeSession(s: any): Session {
   };
 }
 
-/* -------------------- sessions -------------------- */
+/* -------------------- loading -------------------- */
 
-export function loadSessions(): Session[] {
-  if (typeof window === "undefined") return [];
+// Keys whose unreadable contents couldn't be backed up either: never overwrite them
+const unsafeToSave = new Set<string>();
+
+// Backups sit next to the data (ex: recapkit.sessions.backup.1760000000000) until someone recovers them
+function backupStored(key: string, text: string, reason: unknown): string | null {
+  const backupKey = `${key}.backup.${Date.now()}`;
   try {
-    const raw = localStorage.getItem(SESSIONS_KEY);
-    const parsed = raw ? JSON.parse(raw) : [];
-    if (!Array.isArray(parsed)) return [];
-    return parsed.map(normalizeSession);
-  } catch {
+    localStorage.setItem(backupKey, text);
+    console.error(`Could not load ${key}; original kept in ${backupKey}:`, reason);
+    return backupKey;
+  } catch (err) {
+    console.error(`Could not load ${key}, and the backup failed too (not saving over it):`, reason, err);
+    unsafeToSave.add(key);
+    return null;
+  }
+}
+
+/**
+ * Read a stored list, migrating old records and writing the upgraded list back once.
+ * Records (or a whole value) that can't be read are copied to a backup key first; if the backup
+ * can't be written, the stored value is left alone and later saves to that key are skipped.
+ */
+function loadStored<T>(key: string, kind: StoredKind, normalize: (raw: unknown) => T): T[] {
+  const text = localStorage.getItem(key);
+  if (!text) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) throw new Error(`expected a list of ${kind}s`);
+  } catch (err) {
+    backupStored(key, text, err);
     return [];
   }
+
+  const items: T[] = [];
+  const failed: unknown[] = [];
+  const errors: unknown[] = [];
+  let migrated = 0;
+  for (const raw of parsed) {
+    try {
+      const stale = schemaVersionOf(raw) < SCHEMA_VERSION;
+      items.push(normalize(raw));
+      if (stale) migrated++;
+    } catch (err) {
+      failed.push(raw);
+      errors.push(err);
+    }
+  }
+
+  if (failed.length && !backupStored(key, JSON.stringify(failed), errors)) return items;
+  if (migrated || failed.length) localStorage.setItem(key, JSON.stringify(items));
+  return items;
+}
+
+/* -------------------- sessions -------------------- */
+
+export function loadSessions(): Session[] {
+  if (typeof window === "undefined") return [];
+  return loadStored(SESSIONS_KEY, "session", normalizeSession);
 }
 
 export function saveSessions(sessions: Session[]) {
-  if (typeof window === "undefined") return;
+  if (typeof window === "undefined" || unsafeToSave.has(SESSIONS_KEY)) return;
   localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
 }
 
@@ -278,12 +435,15 @@ export function createSession(): Session {
   const now = Date.now();
   return {
     id: generateId(),
+    schemaVersion: SCHEMA_VERSION,
     title: "Untitled Meeting",
     folderId: null,
     mode: "current",
     objective: "",
     rawNotes: "",
     postMeetingNotes: "",
+    attendees: [],
+    locale: "auto",
     outputs: defaultOutputs(),
 
     pastMeta: undefined,
@@ -379,20 +539,31 @@ export function updateFollowUpInSession(session: Session, followUpId: string, pa
 
 /* -------------------- folders -------------------- */
 
+export function normalizeFolder(raw: unknown): Folder {
+  const now = Date.now();
+  const f = migrateRecord("folder", raw);
+  const rules = normalizeExtractionRules(f?.extractionRules);
+  return {
+    id: typeof f?.id === "string" ? f.id : generateId(),
+    schemaVersion: Math.max(schemaVersionOf(raw), SCHEMA_VERSION),
+    name: typeof f?.name === "string" ? f.name : "Untitled File",
+    extractionRules: hasExtractionRules(rules) ? rules : undefined,
+    createdAt: typeof f?.createdAt === "number" ? f.createdAt : now,
+    updatedAt: typeof f?.updatedAt === "number" ? f.updatedAt : now,
+  };
+}
+
+export function updateFolder(folders: Folder[], updated: Folder): Folder[] {
+  return folders.map((f) => (f.id === updated.id ? { ...updated, updatedAt: Date.now() } : f));
+}
+
 export function loadFolders(): Folder[] {
   if (typeof window === "undefined") return [];
-  try {
-    const raw = localStorage.getItem(FOLDERS_KEY);
-    const parsed = raw ? JSON.parse(raw) : [];
-    if (!Array.isArray(parsed)) return [];
-    return parsed as Folder[];
-  } catch {
-    return [];
-  }
+  return loadStored(FOLDERS_KEY, "folder", normalizeFolder);
 }
 
 export function saveFolders(folders: Folder[]) {
-  if (typeof window === "undefined") return;
+  if (typeof window === "undefined" || unsafeToSave.has(FOLDERS_KEY)) return;
   localStorage.setItem(FOLDERS_KEY, JSON.stringify(folders));
 }
 
@@ -400,12 +571,59 @@ export function createFolder(name: string): Folder {
   const now = Date.now();
   return {
     id: generateId(),
+    schemaVersion: SCHEMA_VERSION,
     name,
     createdAt: now,
     updatedAt: now,
   };
 }
 
+/* -------------------- deletes waiting for sync -------------------- */
+
+/** Deletes made on this device that the server hasn't taken yet (lib/sync.ts replays them). */
+export type LocalDeletes = {
+  sessions: Record<string, number>; // id -> deletedAt
+  folders: Record<string, number>;
+};
+
+function asDeleteMap(x: unknown): Record<string, number> {
+  const out: Record<string, number> = {};
+  if (!x || typeof x !== "object" || Array.isArray(x)) return out;
+  for (const [id, at] of Object.entries(x)) {
+    if (typeof at === "number" && Number.isFinite(at)) out[id] = at;
+  }
+  return out;
+}
+
+export function loadLocalDeletes(): LocalDeletes {
+  if (typeof window === "undefined") return { sessions: {}, folders: {} };
+  try {
+    const raw = JSON.parse(localStorage.getItem(DELETED_KEY) ?? "{}");
+    return { sessions: asDeleteMap(raw?.sessions), folders: asDeleteMap(raw?.folders) };
+  } catch {
+    return { sessions: {}, folders: {} };
+  }
+}
+
+function saveLocalDeletes(deletes: LocalDeletes) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(DELETED_KEY, JSON.stringify(deletes));
+}
+
+export function recordLocalDelete(collection: keyof LocalDeletes, id: string, deletedAt: number = Date.now()) {
+  const deletes = loadLocalDeletes();
+  deletes[collection][id] = deletedAt;
+  saveLocalDeletes(deletes);
+}
+
+/** The server took these deletes (or refused them for a newer edit): stop replaying them. */
+export function clearLocalDeletes(collection: keyof LocalDeletes, ids: string[]) {
+  if (!ids.length) return;
+  const deletes = loadLocalDeletes();
+  for (const id of ids) delete deletes[collection][id];
+  saveLocalDeletes(deletes);
+}
+
 /* -------------------- sorting helpers -------------------- */
 
 export type SortMode = "updated" | "alpha";
@@ -0,0 +1,63 @@
+// web/lib/sse.ts
+// Minimal server-sent events over fetch (EventSource can't POST a body).
+// Server: encodeSseEvent per event. Client: readSseStream on the response body.
+
+export type SseEvent = {
+  event: string;
+  data: unknown; // JSON-decoded
+};
+
+export function encodeSseEvent(event: string, data: unknown): string {
+  // JSON never contains raw newlines, so one data line per event is enough
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export function wantsEventStream(req: Request, body: unknown): boolean {
+  const b = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  return b.stream === true || (req.headers.get("accept") ?? "").includes("text/event-stream");
+}
+
+function parseBlock(block: string): SseEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+  }
+  if (!data.length) return null;
+
+  try {
+    return { event, data: JSON.parse(data.join("\n")) };
+  } catch {
+    return { event, data: data.join("\n") };
+  }
+}
+
+/**
+ * Read an event stream to the end, calling `onEvent` per event. Rejects with an AbortError
+ * when the fetch's signal is aborted (the caller's cancel).
+ */
+export async function readSseStream(res: Response, onEvent: (e: SseEvent) => void): Promise<void> {
+  if (!res.body) return;
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value.replace(/\r\n?/g, "\n");
+    let sep = buffer.indexOf("\n\n");
+    while (sep >= 0) {
+      const parsed = parseBlock(buffer.slice(0, sep));
+      buffer = buffer.slice(sep + 2);
+      if (parsed) onEvent(parsed);
+      sep = buffer.indexOf("\n\n");
+    }
+  }
+
+  const rest = parseBlock(buffer.trim());
+  if (rest) onEvent(rest);
+}
@@ -0,0 +1,143 @@
+// web/lib/storage/recordRoutes.ts
+// REST handlers shared by /api/sessions and /api/folders (same CRUD over a RecordStore):
+//
+//   GET    /api/sessions           -> { ok, sessions, deleted }   deleted = { id: deletedAt }
+//   POST   /api/sessions           -> 201 { ok, session } | 409 (id taken)
+//   GET    /api/sessions/:id       -> { ok, session } | 404 (with deletedAt when it was deleted)
+//   PUT    /api/sessions/:id       -> { ok, session } | 409 (server copy is newer, or was deleted)
+//   DELETE /api/sessions/:id?deletedAt=<ms> -> { ok, deletedAt } | 409 (edited after deletedAt)
+//
+// A 409 carries the server's copy so the client can take it. Server-only.
+
+import { NextResponse } from "next/server";
+import { isRecordId, type RecordStore, type StoredRecord, type WriteResult } from "@/lib/storage/recordStore";
+import { MigrationError } from "@/lib/migrations";
+
+type Names = { one: string; many: string }; // response keys, ex: "session" / "sessions"
+
+type ItemContext = { params: Promise<Record<string, string>> };
+
+/* -------------------- tiny validators -------------------- */
+
+async function readBody(req: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await req.json();
+    return body && typeof body === "object" && !Array.isArray(body) ? (body as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+function asTimestamp(x: string | null): number | undefined {
+  const n = Number(x);
+  return x && Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/* -------------------- responses -------------------- */
+
+function failed(names: Names, err: unknown) {
+  // The body had an old shape that couldn't be upgraded (lib/migrations.ts)
+  if (err instanceof MigrationError) {
+    return NextResponse.json({ ok: false, error: err.message }, { status: 400 });
+  }
+  console.error(`/api/${names.many} error:`, err);
+  return NextResponse.json({ ok: false, error: `Failed to access ${names.many}` }, { status: 500 });
+}
+
+function written<T extends StoredRecord>(names: Names, res: WriteResult<T>, status = 200) {
+  if (res.ok) return NextResponse.json({ ok: true, [names.one]: res.record }, { status });
+
+  const error =
+    res.reason === "exists"
+      ? `This ${names.one} already exists`
+      : res.reason === "deleted"
+        ? `This ${names.one} was deleted`
+        : `A newer version of this ${names.one} is saved`;
+  return NextResponse.json(
+    { ok: false, error, reason: res.reason, [names.one]: res.current, deletedAt: res.deletedAt },
+    { status: 409 }
+  );
+}
+
+/* -------------------- handlers -------------------- */
+
+export function collectionHandlers<T extends StoredRecord>(store: RecordStore<T>, names: Names) {
+  async function GET() {
+    try {
+      const { records, deleted } = await store.list();
+      return NextResponse.json({ ok: true, [names.many]: records, deleted });
+    } catch (err) {
+      return failed(names, err);
+    }
+  }
+
+  async function POST(req: Request) {
+    const body = await readBody(req);
+    if (!body || !isRecordId(body.id)) {
+      return NextResponse.json({ ok: false, error: `Expected a ${names.one} with an id` }, { status: 400 });
+    }
+    try {
+      return written(names, await store.put(body, { create: true }), 201);
+    } catch (err) {
+      return failed(names, err);
+    }
+  }
+
+  return { GET, POST };
+}
+
+export function itemHandlers<T extends StoredRecord>(store: RecordStore<T>, names: Names, param: string) {
+  async function idOf(ctx: ItemContext): Promise<string | null> {
+    const id = (await ctx.params)[param];
+    return isRecordId(id) ? id : null;
+  }
+
+  function badId() {
+    return NextResponse.json({ ok: false, error: `Invalid ${names.one} id` }, { status: 400 });
+  }
+
+  async function GET(_req: Request, ctx: ItemContext) {
+    const id = await idOf(ctx);
+    if (!id) return badId();
+    try {
+      const record = await store.get(id);
+      if (record) return NextResponse.json({ ok: true, [names.one]: record });
+      const { deleted } = await store.list();
+      return NextResponse.json({ ok: false, error: `No ${names.one} with this id`, deletedAt: deleted[id] }, { status: 404 });
+    } catch (err) {
+      return failed(names, err);
+    }
+  }
+
+  async function PUT(req: Request, ctx: ItemContext) {
+    const id = await idOf(ctx);
+    if (!id) return badId();
+    const body = await readBody(req);
+    if (!body) return NextResponse.json({ ok: false, error: `Expected a ${names.one}` }, { status: 400 });
+    try {
+      // The URL decides which record is written
+      return written(names, await store.put({ ...body, id }));
+    } catch (err) {
+      return failed(names, err);
+    }
+  }
+
+  async function DELETE(req: Request, ctx: ItemContext) {
+    const id = await idOf(ctx);
+    if (!id) return badId();
+    try {
+      // Offline deletes replay later with the time they were made
+      const deletedAt = asTimestamp(new URL(req.url).searchParams.get("deletedAt"));
+      const res = await store.remove(id, deletedAt);
+      if (res.ok) return NextResponse.json({ ok: true, deletedAt: res.deletedAt });
+      return NextResponse.json(
+        { ok: false, error: `This ${names.one} was edited after it was deleted`, reason: res.reason, [names.one]: res.current },
+        { status: 409 }
+      );
+    } catch (err) {
+      return failed(names, err);
+    }
+  }
+
+  return { GET, PUT, DELETE };
+}
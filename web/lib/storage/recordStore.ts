@@ -0,0 +1,166 @@
+// web/lib/storage/recordStore.ts
+// Server-side persistence for sessions and folders: one JSON file per collection under
+// RECAPKIT_DATA_DIR (default ./.data), next to the usage ledger. Server-only.
+//
+// Conflicts resolve by `updatedAt` (last write wins): a write older than the stored record is
+// refused and the stored one returned. Deletes leave a tombstone so a client that was offline
+// doesn't bring the record back on its next sync.
+//
+// Records are migrated to the current schemaVersion as they are read (lib/migrations.ts) and the
+// file is saved in that shape right away. Records that fail to migrate are moved to `failed` in
+// the file, untouched, instead of being dropped.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { dataDir } from "@/lib/usage/ledger";
+import { normalizeFolder, normalizeSession, type Folder, type Session } from "@/lib/sessionStore";
+import { schemaVersionOf, SCHEMA_VERSION } from "@/lib/migrations";
+
+export type StoredRecord = { id: string; updatedAt: number };
+
+export type Tombstones = Record<string, number>; // id -> deletedAt
+
+type StoreFile<T> = {
+  records: Record<string, T>;
+  deleted: Tombstones;
+  failed?: Record<string, unknown>; // key -> record as stored, kept for manual recovery
+};
+
+export type WriteResult<T> =
+  | { ok: true; record: T }
+  | { ok: false; reason: "exists" | "stale" | "deleted"; current: T | null; deletedAt?: number };
+
+export type RemoveResult<T> = { ok: true; deletedAt: number } | { ok: false; reason: "stale"; current: T };
+
+const ID_RE = /^[A-Za-z0-9_-]{1,64}$/;
+
+/** Ids come from the client (sessionStore.generateId); anything else never reaches the file. */
+export function isRecordId(x: unknown): x is string {
+  return typeof x === "string" && ID_RE.test(x);
+}
+
+// Route handlers can end up in separate module instances (one bundle per route in dev):
+// the per-file write queue lives on globalThis so every instance shares it.
+const queues: Map<string, Promise<unknown>> = ((globalThis as { __recapkitStoreQueues?: Map<string, Promise<unknown>> })
+  .__recapkitStoreQueues ??= new Map());
+
+export class RecordStore<T extends StoredRecord> {
+  constructor(
+    private readonly name: string,
+    private readonly normalize: (raw: unknown) => T
+  ) {}
+
+  private file(): string {
+    return path.join(dataDir(), `${this.name}.json`);
+  }
+
+  /** `upgraded`: records were migrated or moved to `failed`, so the file should be saved back. */
+  private async read(): Promise<{ data: StoreFile<T>; upgraded: boolean }> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.file(), "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
+        return { data: { records: {}, deleted: {} }, upgraded: false };
+      }
+      throw err;
+    }
+
+    // A corrupt file throws: answering "empty" here would let the next write wipe it
+    const raw = JSON.parse(text) as Partial<StoreFile<unknown>>;
+    const records: Record<string, T> = {};
+    const failed: Record<string, unknown> = { ...raw.failed };
+    let upgraded = false;
+    for (const [key, value] of Object.entries(raw.records ?? {})) {
+      try {
+        const record = this.normalize(value);
+        records[record.id] = record;
+        if (schemaVersionOf(value) < SCHEMA_VERSION) upgraded = true;
+      } catch (err) {
+        console.error(`${this.name}: record ${key} could not be migrated, kept under "failed":`, err);
+        failed[key] = value;
+        upgraded = true;
+      }
+    }
+    const data = { records, deleted: { ...raw.deleted }, ...(Object.keys(failed).length ? { failed } : {}) };
+    return { data, upgraded };
+  }
+
+  /** The file's current contents; an upgrade found on the way is saved back first. */
+  private async current(): Promise<StoreFile<T>> {
+    const { data, upgraded } = await this.read();
+    if (!upgraded) return data;
+    // Under the queue (which reads the file again): a write may have landed since
+    return this.exclusive(async (latest, stillUpgraded) => {
+      if (stillUpgraded) await this.write(latest);
+      return latest;
+    });
+  }
+
+  private async write(data: StoreFile<T>): Promise<void> {
+    const file = this.file();
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write + rename: a crash mid-write leaves the previous file intact
+    await fs.writeFile(tmp, JSON.stringify(data), "utf8");
+    await fs.rename(tmp, file);
+  }
+
+  /** Read-modify-write under the file's queue so concurrent requests don't drop each other's edits. */
+  private exclusive<R>(fn: (data: StoreFile<T>, upgraded: boolean) => Promise<R>): Promise<R> {
+    const key = this.file();
+    const run = (queues.get(key) ?? Promise.resolve()).then(async () => {
+      const { data, upgraded } = await this.read();
+      return fn(data, upgraded);
+    });
+    queues.set(key, run.catch(() => undefined));
+    return run;
+  }
+
+  async list(): Promise<{ records: T[]; deleted: Tombstones }> {
+    const data = await this.current();
+    return { records: Object.values(data.records), deleted: data.deleted };
+  }
+
+  async get(id: string): Promise<T | null> {
+    return (await this.current()).records[id] ?? null;
+  }
+
+  /** Insert or replace. `create` refuses an id that already exists. */
+  put(raw: unknown, opts?: { create?: boolean }): Promise<WriteResult<T>> {
+    const record = this.normalize(raw);
+
+    return this.exclusive(async (data) => {
+      const current = data.records[record.id] ?? null;
+      if (current && opts?.create) return { ok: false, reason: "exists", current };
+      if (current && current.updatedAt > record.updatedAt) return { ok: false, reason: "stale", current };
+
+      const deletedAt = data.deleted[record.id];
+      if (deletedAt !== undefined && deletedAt >= record.updatedAt) {
+        return { ok: false, reason: "deleted", current: null, deletedAt };
+      }
+
+      data.records[record.id] = record;
+      delete data.deleted[record.id];
+      await this.write(data);
+      return { ok: true, record };
+    });
+  }
+
+  /** Delete as of `deletedAt`; a record edited after that point is kept. Deleting twice is fine. */
+  remove(id: string, deletedAt: number = Date.now()): Promise<RemoveResult<T>> {
+    return this.exclusive(async (data) => {
+      const current = data.records[id];
+      if (current && current.updatedAt > deletedAt) return { ok: false, reason: "stale", current };
+
+      delete data.records[id];
+      data.deleted[id] = Math.max(deletedAt, data.deleted[id] ?? 0);
+      await this.write(data);
+      return { ok: true, deletedAt: data.deleted[id] };
+    });
+  }
+}
+
+export const sessionRecords = new RecordStore<Session>("sessions", normalizeSession);
+
+export const folderRecords = new RecordStore<Folder>("folders", normalizeFolder);
@@ -0,0 +1,303 @@
+// web/lib/sync.ts
+// Client sync between the localStorage store (lib/sessionStore.ts) and /api/sessions + /api/folders.
+// localStorage stays the working copy: edits made offline are kept there and pushed on the next
+// sync. Each record is reconciled by `updatedAt` (the newer copy wins, on either side).
+// Deletes are recorded locally (recordLocalDelete) and replayed with the time they were made.
+// Client-only.
+
+import {
+  clearLocalDeletes,
+  loadLocalDeletes,
+  normalizeFolder,
+  normalizeSession,
+  type Folder,
+  type Session,
+} from "./sessionStore";
+
+export type SyncStatus = "idle" | "syncing" | "synced" | "offline" | "error";
+
+type Stamped = { id: string; updatedAt: number };
+
+type Collection = "sessions" | "folders";
+
+/** What the server holds (or the part of it a push learned about). */
+export type RemoteSnapshot<T> = {
+  records: T[];
+  deleted: Record<string, number>; // id -> deletedAt
+  unreadable?: string[]; // ids the server holds in a shape this build can't read (left alone)
+  skipped?: number; // records that couldn't be read, with or without an id
+};
+
+export type SyncResult = {
+  status: SyncStatus;
+  sessions?: RemoteSnapshot<Session>;
+  folders?: RemoteSnapshot<Folder>;
+  skipped?: number; // full sync: server records that couldn't be read (both collections)
+};
+
+export type LocalData = { sessions: Session[]; folders: Folder[] };
+
+const NORMALIZE: { [K in Collection]: (raw: unknown) => Stamped } = {
+  sessions: normalizeSession,
+  folders: normalizeFolder,
+};
+
+/* -------------------- reconcile -------------------- */
+
+/**
+ * Merge the local list with the server's. Per id: the higher `updatedAt` wins (ties keep the
+ * local copy); a server delete removes local copies last edited before it; server-only records
+ * are added unless they were deleted here after their last edit (`deletedHere`, not synced yet).
+ * `push` = local copies the server should take. Ids the server holds but couldn't be read keep
+ * the local copy and are never pushed over.
+ */
+export function reconcileRecords<T extends Stamped>(
+  local: T[],
+  remote: RemoteSnapshot<T>,
+  deletedHere: Record<string, number> = {}
+): { merged: T[]; push: T[] } {
+  const remoteById = new Map(remote.records.map((r) => [r.id, r]));
+  const unreadable = new Set(remote.unreadable);
+  const merged: T[] = [];
+  const push: T[] = [];
+
+  for (const item of local) {
+    const theirs = remoteById.get(item.id);
+    remoteById.delete(item.id);
+
+    if (!theirs && unreadable.has(item.id)) {
+      merged.push(item);
+    } else if (!theirs) {
+      const deletedAt = remote.deleted[item.id];
+      if (deletedAt !== undefined && deletedAt >= item.updatedAt) continue;
+      merged.push(item);
+      push.push(item);
+    } else if (item.updatedAt >= theirs.updatedAt) {
+      merged.push(item);
+      if (item.updatedAt > theirs.updatedAt) push.push(item);
+    } else {
+      merged.push(theirs);
+    }
+  }
+
+  const added = Array.from(remoteById.values()).filter((r) => !(deletedHere[r.id] >= r.updatedAt));
+  return { merged: [...merged, ...added], push };
+}
+
+/* -------------------- transport -------------------- */
+
+// Last `updatedAt` the server is known to hold, per record: pushes skip anything not newer
+const known: Record<Collection, Map<string, number>> = { sessions: new Map(), folders: new Map() };
+
+// One sync at a time: a push must not race the full sync that is about to send the same record
+let queue: Promise<unknown> = Promise.resolve();
+
+function exclusive<R>(fn: () => Promise<R>): Promise<R> {
+  const run = queue.then(fn, fn);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+class SyncHttpError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncHttpError";
+  }
+}
+
+class SyncNetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncNetworkError";
+  }
+}
+
+// Only a request that never reached the server means offline; anything else is a sync error
+function statusOf(err: unknown): SyncStatus {
+  return err instanceof SyncNetworkError ? "offline" : "error";
+}
+
+// fetch rejects (TypeError) when the network is down; HTTP errors resolve normally
+async function request(url: string, init?: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (err) {
+    throw new SyncNetworkError(`${init?.method ?? "GET"} ${url}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// A record this build can't read (ex: MigrationError) is skipped, not allowed to fail the sync
+function readRecord<T extends Stamped>(collection: Collection, raw: unknown, into: RemoteSnapshot<T>): T | null {
+  try {
+    return NORMALIZE[collection](raw) as T;
+  } catch (err) {
+    const id = (raw as { id?: unknown } | null)?.id;
+    console.warn(`Sync: skipped unreadable ${collection} record ${typeof id === "string" ? id : "(no id)"}:`, err);
+    into.skipped = (into.skipped ?? 0) + 1;
+    if (typeof id === "string") into.unreadable = [...(into.unreadable ?? []), id];
+    return null;
+  }
+}
+
+async function fetchRemote<T extends Stamped>(collection: Collection): Promise<RemoteSnapshot<T>> {
+  const res = await request(`/api/${collection}`, { cache: "no-store" });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok || !Array.isArray(json[collection])) {
+    throw new SyncHttpError(json?.error || `GET /api/${collection} failed (${res.status})`);
+  }
+
+  const deleted = json.deleted && typeof json.deleted === "object" ? (json.deleted as Record<string, number>) : {};
+  const snapshot: RemoteSnapshot<T> = { records: [], deleted };
+  for (const raw of json[collection] as unknown[]) {
+    const record = readRecord<T>(collection, raw, snapshot);
+    if (record) snapshot.records.push(record);
+  }
+  return snapshot;
+}
+
+/**
+ * PUT each record. Accepted ones are added to `into`; on a conflict (409) the server's copy
+ * (or its delete) goes into `into` instead, for the caller to reconcile against.
+ */
+async function pushRecords<T extends Stamped>(collection: Collection, records: T[], into: RemoteSnapshot<T>) {
+  const one = collection === "sessions" ? "session" : "folder";
+
+  for (const record of records) {
+    const res = await request(`/api/${collection}/${encodeURIComponent(record.id)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(record),
+    });
+    const json = await res.json().catch(() => null);
+
+    if (res.ok && json?.ok) {
+      known[collection].set(record.id, record.updatedAt);
+      upsert(into, record);
+    } else if (res.status === 409 && json?.[one]) {
+      const current = readRecord<T>(collection, json[one], into);
+      if (current) {
+        known[collection].set(current.id, current.updatedAt);
+        upsert(into, current);
+      }
+    } else if (res.status === 409 && typeof json?.deletedAt === "number") {
+      known[collection].delete(record.id);
+      into.records = into.records.filter((r) => r.id !== record.id);
+      into.deleted[record.id] = json.deletedAt;
+    } else {
+      throw new SyncHttpError(json?.error || `PUT /api/${collection} failed (${res.status})`);
+    }
+  }
+}
+
+/**
+ * Replay deletes made here (DELETE ?deletedAt=). Done ones are cleared and recorded in `into`;
+ * a 409 (edited elsewhere after the delete) clears the delete too and keeps the server's copy.
+ */
+async function pushDeletes<T extends Stamped>(collection: Collection, into: RemoteSnapshot<T>) {
+  const one = collection === "sessions" ? "session" : "folder";
+  const done: string[] = [];
+
+  try {
+    for (const [id, deletedAt] of Object.entries(loadLocalDeletes()[collection])) {
+      const res = await request(`/api/${collection}/${encodeURIComponent(id)}?deletedAt=${deletedAt}`, {
+        method: "DELETE",
+      });
+      const json = await res.json().catch(() => null);
+
+      if (res.ok && json?.ok) {
+        known[collection].delete(id);
+        into.records = into.records.filter((r) => r.id !== id);
+        into.deleted[id] = typeof json.deletedAt === "number" ? json.deletedAt : deletedAt;
+      } else if (res.status === 409) {
+        const current = json?.[one] ? readRecord<T>(collection, json[one], into) : null;
+        if (current) {
+          known[collection].set(current.id, current.updatedAt);
+          upsert(into, current);
+        }
+      } else {
+        throw new SyncHttpError(json?.error || `DELETE /api/${collection} failed (${res.status})`);
+      }
+      done.push(id);
+    }
+  } finally {
+    // Whatever went through before a failure must not be replayed again
+    clearLocalDeletes(collection, done);
+  }
+}
+
+// `into` may already hold the server's older copy of a pushed record
+function upsert<T extends Stamped>(into: RemoteSnapshot<T>, record: T) {
+  into.records = [...into.records.filter((r) => r.id !== record.id), record];
+}
+
+function remember<T extends Stamped>(collection: Collection, snapshot: RemoteSnapshot<T>) {
+  for (const r of snapshot.records) known[collection].set(r.id, r.updatedAt);
+  for (const id of Object.keys(snapshot.deleted)) known[collection].delete(id);
+}
+
+/* -------------------- sync -------------------- */
+
+/**
+ * Full sync: fetch both collections, push local copies the server is missing or has older,
+ * and return what the server now holds. The caller reconciles its live state against it
+ * (`reconcileRecords(current, result.sessions).merged`) so edits made meanwhile survive.
+ */
+export function syncAll(local: LocalData): Promise<SyncResult> {
+  return exclusive(async () => {
+    if (typeof navigator !== "undefined" && navigator.onLine === false) return { status: "offline" };
+
+    try {
+      // Folders first: sessions point at them
+      const folders = await fetchRemote<Folder>("folders");
+      const sessions = await fetchRemote<Session>("sessions");
+      // Sessions first here: they may point at a folder deleted alongside them
+      await pushDeletes("sessions", sessions);
+      await pushDeletes("folders", folders);
+      remember("folders", folders);
+      remember("sessions", sessions);
+
+      await pushRecords("folders", reconcileRecords(local.folders, folders).push, folders);
+      await pushRecords("sessions", reconcileRecords(local.sessions, sessions).push, sessions);
+      const skipped = (folders.skipped ?? 0) + (sessions.skipped ?? 0);
+      return { status: "synced", folders, sessions, skipped };
+    } catch (err) {
+      console.warn("Sync failed:", err);
+      return { status: statusOf(err) };
+    }
+  });
+}
+
+/**
+ * Push local edits (records newer than the server's last known copy) and deletes without
+ * fetching. Returns null when there was nothing to send. The snapshots only hold what was pushed.
+ */
+export function pushChanges(local: Partial<LocalData>): Promise<SyncResult | null> {
+  const changed = <T extends Stamped>(collection: Collection, list: T[] = []) =>
+    list.filter((r) => r.updatedAt > (known[collection].get(r.id) ?? -1));
+
+  return exclusive(async () => {
+    const folders = changed("folders", local.folders);
+    const sessions = changed("sessions", local.sessions);
+    const deletes = loadLocalDeletes();
+    const hasDeletes = Object.keys(deletes.sessions).length + Object.keys(deletes.folders).length > 0;
+    if (!folders.length && !sessions.length && !hasDeletes) return null;
+    if (typeof navigator !== "undefined" && navigator.onLine === false) return { status: "offline" };
+
+    const result = {
+      status: "synced" as SyncStatus,
+      folders: { records: [], deleted: {} } as RemoteSnapshot<Folder>,
+      sessions: { records: [], deleted: {} } as RemoteSnapshot<Session>,
+    };
+    try {
+      await pushDeletes("sessions", result.sessions);
+      await pushDeletes("folders", result.folders);
+      await pushRecords("folders", folders, result.folders);
+      await pushRecords("sessions", sessions, result.sessions);
+      return result;
+    } catch (err) {
+      console.warn("Sync push failed:", err);
+      // Whatever went through before the failure still needs reconciling
+      return { ...result, status: statusOf(err) };
+    }
+  });
+}
@@ -0,0 +1,27 @@
+// web/lib/transcript.test.ts
+// Transcript cleanup: fillers and stutters go, words a speaker repeats on purpose stay.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { cleanTranscriptText } from "@/lib/transcript";
+
+test("stutters on short function words are collapsed", () => {
+  assert.equal(cleanTranscriptText("I I think we should ship"), "I think we should ship");
+  assert.equal(cleanTranscriptText("send it to the the client"), "Send it to the client");
+});
+
+test("repeats set off by a comma or ellipsis are collapsed", () => {
+  assert.equal(cleanTranscriptText("we, we need a date"), "We need a date");
+  assert.equal(cleanTranscriptText("the... the plan is fine"), "The plan is fine");
+  assert.equal(cleanTranscriptText("I... I think so"), "I think so");
+});
+
+test('grammatical repeats like "that that" and "had had" are kept', () => {
+  assert.equal(cleanTranscriptText("I said that that was fine"), "I said that that was fine");
+  assert.equal(cleanTranscriptText("we had had three outages by then"), "We had had three outages by then");
+});
+
+test("fillers are dropped and a filler-only turn is empty", () => {
+  assert.equal(cleanTranscriptText("um, the plan is, uh, ready"), "The plan is ready");
+  assert.equal(cleanTranscriptText("uh, um."), "");
+});
@@ -0,0 +1,191 @@
+// web/lib/transcript.ts
+// Transcript ingestion (WebVTT, SRT, "Speaker: text") → clean notes for Session.rawNotes.
+// Deterministic: this is the whole polish for tiers without Task D, and the draft/fallback otherwise.
+
+export type TranscriptFormat = "vtt" | "srt" | "speaker" | "plain";
+
+export type TranscriptTurn = {
+  speaker?: string;
+  text: string;
+};
+
+export type PolishedTranscript = {
+  format: TranscriptFormat;
+  speakers: string[];
+  turns: TranscriptTurn[];
+  notes: string; // one "- Speaker: text" bullet per merged turn
+};
+
+const TIMING_RE = /^\s*(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}\s*-->\s*(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}/;
+// "Jane Doe: text" - short capitalized label, so "Note: the API..." style prose mostly survives
+const SPEAKER_RE = /^([\p{Lu}][\p{L}\p{N}.'-]*(?:\s+[\p{L}\p{N}.'-]+){0,3}|Speaker\s*\d+)\s*:\s+(.+)$/u;
+// "[00:01:02]", "(01:02)", "00:01:02 -", "12:03" at the start of a line
+const LEADING_TIMESTAMP_RE = /^\s*[[(]?\s*(\d{1,2}:)?\d{1,2}:\d{2}([.,]\d{1,3})?\s*[\])]?\s*[-–]?\s*/;
+
+export function detectTranscriptFormat(text: string): TranscriptFormat {
+  const trimmed = text.replace(/^﻿/, "").trimStart();
+  if (/^WEBVTT\b/.test(trimmed)) return "vtt";
+
+  const lines = trimmed.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.some((l) => TIMING_RE.test(l))) {
+    // SRT uses a comma before milliseconds; VTT without header uses a dot
+    return lines.some((l) => /\d{2}:\d{2},\d{3}\s*-->/.test(l)) ? "srt" : "vtt";
+  }
+
+  const speakerLines = lines.filter((l) => SPEAKER_RE.test(l.replace(LEADING_TIMESTAMP_RE, ""))).length;
+  return lines.length && speakerLines / lines.length >= 0.5 ? "speaker" : "plain";
+}
+
+/* -------------------- parsing -------------------- */
+
+function splitSpeaker(line: string): TranscriptTurn {
+  // WebVTT voice tag: "<v Jane Doe>text</v>"
+  const voice = line.match(/^<v(?:\.[\w.-]+)?\s+([^>]+)>(.*)$/);
+  if (voice) return { speaker: voice[1].trim(), text: voice[2] };
+
+  const m = line.match(SPEAKER_RE);
+  return m ? { speaker: m[1].trim(), text: m[2] } : { text: line };
+}
+
+function stripCueMarkup(s: string): string {
+  return s
+    .replace(/<\/?[^>]+>/g, "") // <i>, <c.red>, </v>, <00:00:01.000>
+    .replace(/\{\\[^}]*\}/g, "") // SRT ASS-style tags: {\an8}
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ");
+}
+
+/** VTT/SRT: blank-line separated cues; only the text after the timing line is kept. */
+function parseCues(text: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+
+  for (const block of text.replace(/\r\n?/g, "\n").split(/\n\s*\n/)) {
+    const lines = block.split("\n");
+    const timingIdx = lines.findIndex((l) => TIMING_RE.test(l));
+    if (timingIdx < 0) continue; // WEBVTT header, NOTE, STYLE, REGION blocks
+
+    let speaker: string | undefined;
+    for (const raw of lines.slice(timingIdx + 1)) {
+      if (!raw.trim()) continue;
+      const turn = splitSpeaker(raw.trim());
+      // A cue's speaker carries over to its continuation lines
+      speaker = turn.speaker ?? speaker;
+      const cleaned = stripCueMarkup(turn.text).trim();
+      if (cleaned) turns.push({ speaker, text: cleaned });
+    }
+  }
+
+  return turns;
+}
+
+/** "Speaker: text" lines; unlabeled lines continue the previous speaker. */
+function parseSpeakerLines(text: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  let speaker: string | undefined;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(LEADING_TIMESTAMP_RE, "").trim();
+    if (!line) continue;
+    const turn = splitSpeaker(line);
+    speaker = turn.speaker ?? speaker;
+    // Each line is a whole utterance (unlike cues), so close it before turns are merged
+    turns.push({ speaker, text: /[.!?]$/.test(turn.text) ? turn.text : `${turn.text}.` });
+  }
+
+  return turns;
+}
+
+export function parseTranscript(text: string, format: TranscriptFormat = detectTranscriptFormat(text)): TranscriptTurn[] {
+  const body = text.replace(/^﻿/, "");
+  if (format === "vtt" || format === "srt") return parseCues(body);
+  if (format === "speaker") return parseSpeakerLines(body);
+
+  return body
+    .split(/\r?\n/)
+    .map((l) => l.replace(LEADING_TIMESTAMP_RE, "").trim())
+    .filter(Boolean)
+    .map((l) => ({ text: l }));
+}
+
+/* -------------------- cleanup -------------------- */
+
+// Hesitations only; "like" / "kind of" carry meaning too often to drop blindly
+const FILLER_WORDS_RE = /,?\s*\b(?:u+h+m*|u+m+|e+r+m+|e+r|a+h+|h+m+|m+h+m+|mm-hmm|uh-huh)\b[,.!?]?(?=\s|$)/gi;
+// Discourse fillers only when set off by a comma ("you know, ...")
+const FILLER_PHRASES_RE = /,?\s*\b(?:you know|i mean)\s*,/gi;
+// Stutters: a repeat set off by a comma or ellipsis ("we, we need", "I... I think"), or a
+// plain repeat of a word nobody doubles on purpose ("the the"). "that that" and "had had" stay.
+const HESITATION_REPEAT_RE = /\b(\p{L}+)(?:\s*(?:,|\.{3}|…)\s*\1\b)+/giu;
+const STUTTER_WORDS = [
+  "i", "we", "you", "he", "she", "they", "it", "my", "our", "the", "a", "an", "and", "but", "or", "to",
+];
+const STUTTER_REPEAT_RE = new RegExp(`\\b(${STUTTER_WORDS.join("|")})(?:\\s+\\1\\b)+`, "gi");
+
+/**
+ * Remove fillers and stutters ("I I think"), tidy spacing/punctuation, capitalize the
+ * first letter. Returns "" when nothing but filler was said.
+ */
+export function cleanTranscriptText(text: string): string {
+  let s = ` ${text} `;
+
+  s = s.replace(FILLER_PHRASES_RE, " ").replace(FILLER_WORDS_RE, " ");
+  s = s.replace(HESITATION_REPEAT_RE, "$1").replace(STUTTER_REPEAT_RE, "$1");
+
+  s = s
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,.!?;:])/g, "$1")
+    .replace(/([,;:])(?:\s*[,;:])+/g, "$1")
+    .replace(/^[\s,.;:-]+/, "")
+    .replace(/[\s,;:-]+$/, "")
+    .trim();
+
+  if (!/[\p{L}\p{N}]/u.test(s)) return "";
+  // Sentence starts may have lost their capital with a leading filler ("Um, the plan...")
+  s = s.replace(/([.!?]\s+)(\p{Ll})/gu, (_, end: string, first: string) => end + first.toUpperCase());
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+/**
+ * Consecutive turns by the same speaker become one turn. Cues often split a sentence,
+ * so turns without closing punctuation are joined with a plain space.
+ */
+export function mergeTurns(turns: TranscriptTurn[]): TranscriptTurn[] {
+  const out: TranscriptTurn[] = [];
+
+  for (const turn of turns) {
+    const prev = out[out.length - 1];
+    if (prev && prev.speaker === turn.speaker) {
+      prev.text = `${prev.text} ${turn.text}`;
+    } else {
+      out.push({ ...turn });
+    }
+  }
+
+  return out;
+}
+
+export function formatTranscriptNotes(turns: TranscriptTurn[]): string {
+  return turns
+    .map((t) => {
+      const text = /[.!?]$/.test(t.text) ? t.text : `${t.text}.`;
+      return t.speaker ? `- ${t.speaker}: ${text}` : `- ${text}`;
+    })
+    .join("\n");
+}
+
+export function polishTranscript(text: string, format?: TranscriptFormat): PolishedTranscript {
+  const resolved = format ?? detectTranscriptFormat(text);
+
+  // Merge first so fillers/stutters spanning cue boundaries are cleaned as one sentence,
+  // then again because a filler-only turn between two turns of one speaker drops out
+  const cleaned = mergeTurns(parseTranscript(text, resolved))
+    .map((t) => ({ ...t, text: cleanTranscriptText(t.text) }))
+    .filter((t) => t.text);
+  const turns = mergeTurns(cleaned);
+
+  const speakers = Array.from(new Set(turns.map((t) => t.speaker).filter((s): s is string => Boolean(s))));
+
+  return { format: resolved, speakers, turns, notes: formatTranscriptNotes(turns) };
+}
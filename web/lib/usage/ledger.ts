@@ -0,0 +1,121 @@
+// web/lib/usage/ledger.ts
+// Append-only usage ledger: one JSON line per AI task attempt (model, tokens, estimated cost).
+// Local file store under RECAPKIT_DATA_DIR (default ./.data). Server-only.
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { AITask } from "@/lib/ai/tasks";
+import type { AIStepReport } from "@/lib/ai/execute";
+import { estimateCost } from "@/lib/ai/tokens";
+
+export type UsageRoute = "generate" | "transcript" | "follow-up";
+
+export type UsageEntry = {
+  at: string; // ISO timestamp
+  account: string;
+  route: UsageRoute;
+  requestId: string; // groups the tasks of one API call
+  task: AITask;
+  model: string;
+  promptVersion?: string;
+  status: "ok" | "failed";
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number; // estimate, see lib/ai/tokens.ts
+};
+
+export type MonthlyUsage = {
+  month: string; // YYYY-MM (UTC)
+  generations: number; // API calls that ran at least one AI task
+  refines: number; // Task C runs
+  tokens: number; // input + output
+  costUsd: number;
+};
+
+export function dataDir(env: NodeJS.ProcessEnv = process.env): string {
+  return env.RECAPKIT_DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+function ledgerPath(): string {
+  return path.join(dataDir(), "usage.jsonl");
+}
+
+export function monthKey(at: Date = new Date()): string {
+  return at.toISOString().slice(0, 7);
+}
+
+async function readEntries(): Promise<UsageEntry[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(ledgerPath(), "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return [];
+    throw err;
+  }
+
+  const out: UsageEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      out.push(JSON.parse(line) as UsageEntry);
+    } catch {
+      // A torn last line (crash mid-append) shouldn't hide the rest of the ledger
+    }
+  }
+  return out;
+}
+
+export async function getMonthlyUsage(account: string, month: string = monthKey()): Promise<MonthlyUsage> {
+  const entries = (await readEntries()).filter((e) => e.account === account && e.at.startsWith(month));
+
+  return {
+    month,
+    generations: new Set(entries.map((e) => e.requestId)).size,
+    refines: entries.filter((e) => e.task === "C_REFINE").length,
+    tokens: entries.reduce((n, e) => n + e.inputTokens + e.outputTokens, 0),
+    costUsd: entries.reduce((n, e) => n + e.costUsd, 0),
+  };
+}
+
+/**
+ * Record the AI steps of one API call. Skipped steps cost nothing and are not recorded.
+ * Ledger write failures are logged, never surfaced: usage accounting must not fail a request.
+ */
+export async function recordUsage(params: {
+  account: string;
+  route: UsageRoute;
+  requestId: string;
+  steps: AIStepReport[];
+}): Promise<UsageEntry[]> {
+  const at = new Date().toISOString();
+
+  const entries: UsageEntry[] = params.steps
+    .filter((s) => s.status !== "skipped")
+    .map((s) => {
+      const inputTokens = s.inputTokens ?? 0;
+      const outputTokens = s.outputTokens ?? 0;
+      return {
+        at,
+        account: params.account,
+        route: params.route,
+        requestId: params.requestId,
+        task: s.task,
+        model: s.model,
+        promptVersion: s.promptVersion,
+        status: s.status === "ok" ? "ok" : "failed",
+        inputTokens,
+        outputTokens,
+        costUsd: estimateCost(s.model, inputTokens, outputTokens),
+      };
+    });
+
+  if (!entries.length) return entries;
+
+  try {
+    await fs.mkdir(dataDir(), { recursive: true });
+    await fs.appendFile(ledgerPath(), entries.map((e) => JSON.stringify(e)).join("\n") + "\n", "utf8");
+  } catch (err) {
+    console.error("Usage ledger write failed:", err);
+  }
+  return entries;
+}
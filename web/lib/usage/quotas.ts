@@ -0,0 +1,102 @@
+// web/lib/usage/quotas.ts
+// Per-tier monthly quotas and what happens when they run out:
+// - generations or tokens exhausted → AI tasks are refused (deterministic path only)
+// - tokens nearly exhausted (≥ 90%) → models are downgraded one step (routing config `downgrades`)
+// - refines exhausted → Task C is skipped
+// Every refusal/downgrade carries a reason that the API returns to the client.
+
+import type { Tier } from "@/lib/types/tier";
+import type { RouterTask } from "@/lib/ai/router";
+import { getRoutingConfig } from "@/lib/ai/routingConfig";
+import { getMonthlyUsage, type MonthlyUsage } from "@/lib/usage/ledger";
+
+export type TierQuota = {
+  generations: number; // AI-backed API calls per month (generate, transcript, follow-up)
+  refines: number; // Task C runs per month
+  tokens: number; // input + output tokens per month
+};
+
+export const TIER_QUOTAS: Record<Tier, TierQuota> = {
+  free: { generations: 30, refines: 0, tokens: 200_000 },
+  basic: { generations: 300, refines: 30, tokens: 2_000_000 },
+  premium: { generations: 1_000, refines: 300, tokens: 8_000_000 },
+  pro: { generations: 5_000, refines: 5_000, tokens: 40_000_000 },
+};
+
+const TIER_LABELS: Record<Tier, string> = { free: "Free", basic: "Basic", premium: "Premium", pro: "Pro" };
+
+const DOWNGRADE_AT = 0.9;
+
+export type QuotaPlan = {
+  tier: Tier;
+  limits: TierQuota;
+  usage: MonthlyUsage;
+  allowAi: boolean;
+  allowRefine: boolean;
+  downgrade: boolean;
+  reasons: string[];
+};
+
+export function planQuota(tier: Tier, usage: MonthlyUsage, estimatedTokens = 0): QuotaPlan {
+  const limits = TIER_QUOTAS[tier];
+  const label = TIER_LABELS[tier];
+  const reasons: string[] = [];
+
+  let allowAi = true;
+  if (usage.generations >= limits.generations) {
+    allowAi = false;
+    reasons.push(
+      `Monthly AI generation quota reached (${usage.generations}/${limits.generations} on ${label}); used the built-in generator.`
+    );
+  } else if (usage.tokens + estimatedTokens > limits.tokens) {
+    allowAi = false;
+    reasons.push(`Monthly token quota reached (${usage.tokens}/${limits.tokens} on ${label}); used the built-in generator.`);
+  }
+
+  const downgrade = allowAi && usage.tokens + estimatedTokens >= limits.tokens * DOWNGRADE_AT;
+  if (downgrade) {
+    reasons.push(`Over ${Math.round(DOWNGRADE_AT * 100)}% of the monthly token quota used; switched to smaller models.`);
+  }
+
+  // Free has no refine quota at all: that's routing, not an exhausted quota, so no reason
+  let allowRefine = allowAi;
+  if (allowAi && limits.refines > 0 && usage.refines >= limits.refines) {
+    allowRefine = false;
+    reasons.push(`Monthly refine quota reached (${usage.refines}/${limits.refines} on ${label}); refine pass skipped.`);
+  }
+
+  return { tier, limits, usage, allowAi, allowRefine, downgrade, reasons };
+}
+
+export type ModelDecision = { model: string; reason?: string };
+
+/** Apply a quota plan to the router's model choice for one task. */
+export function applyQuota(plan: QuotaPlan, task: RouterTask, model: string): ModelDecision {
+  if (model === "none") return { model };
+  if (!plan.allowAi) return { model: "none", reason: "Quota exhausted" };
+  if (task === "C" && !plan.allowRefine) return { model: "none", reason: "Refine quota exhausted" };
+  const cheaper = plan.downgrade ? getRoutingConfig().config.downgrades[model] : undefined;
+  if (cheaper) return { model: cheaper, reason: `Downgraded from ${model}` };
+  return { model };
+}
+
+/** This month's plan for an account; ledger read errors fail open (no quota applied). */
+export async function loadQuotaPlan(account: string, tier: Tier, estimatedTokens = 0): Promise<QuotaPlan> {
+  let usage: MonthlyUsage;
+  try {
+    usage = await getMonthlyUsage(account);
+  } catch (err) {
+    console.error("Usage ledger read failed:", err);
+    usage = { month: "", generations: 0, refines: 0, tokens: 0, costUsd: 0 };
+  }
+  return planQuota(tier, usage, estimatedTokens);
+}
+
+/** Quota section of API responses: why AI was refused or downgraded, plus the month's numbers. */
+export function quotaReport(plan: QuotaPlan) {
+  return {
+    reasons: plan.reasons,
+    usage: plan.usage,
+    limits: plan.limits,
+  };
+}